@@ -16,17 +16,181 @@
  * /// <reference types="@lws-analytics/script/global" />
  */
 
+interface LwsAnalyticsProduct {
+    id: string;
+    name?: string;
+    category?: string;
+    brand?: string;
+    variant?: string;
+    price?: number;
+    quantity?: number;
+    currency?: string;
+}
+
 interface LwsAnalyticsApi {
     /**
      * Manually track a page view
+     * @param options - Optional virtual path and title, e.g. for wizard steps
      */
-    trackPageView: () => void;
+    trackPageView: (options?: { path?: string; title?: string }) => void;
 
     /**
      * Track a custom event
      * @param name - The name of the custom event
+     * @param props - Optional properties to attach to the event
+     */
+    trackCustomEvent: (
+        name: string,
+        props?: Record<string, string | number | boolean | null>,
+    ) => void;
+
+    /**
+     * Report an error. Only set by the CDN script, npm users register
+     * createErrorTrackingPlugin().
+     * @param error - The error or rejection reason
+     * @param context - Optional properties describing where the error happened
+     */
+    trackError?: (
+        error: unknown,
+        context?: Record<string, string | number | boolean | null>,
+    ) => void;
+
+    /**
+     * Grant or deny consent for analytics tracking
+     * @param consent - The user's consent decision
+     */
+    setConsent: (consent: { analytics: boolean }) => void;
+
+    /**
+     * Attach a user ID and traits to all following events
+     * @param userId - Your own ID for the logged in user
+     * @param traits - Optional properties describing the user
+     */
+    identify: (
+        userId: string,
+        traits?: Record<string, string | number | boolean | null>,
+    ) => void;
+
+    /**
+     * Forget the identified user and rotate the client ID
+     */
+    reset: () => void;
+
+    /**
+     * Attach properties to every following event
+     * @param props - Static values or functions evaluated when an event is tracked
+     */
+    register: (
+        props: Record<
+            string,
+            | string
+            | number
+            | boolean
+            | null
+            | (() => string | number | boolean | null)
+        >,
+    ) => void;
+
+    /**
+     * Like register(), but keeps properties that are already registered
+     * @param props - Static values or functions evaluated when an event is tracked
+     */
+    registerOnce: (
+        props: Record<
+            string,
+            | string
+            | number
+            | boolean
+            | null
+            | (() => string | number | boolean | null)
+        >,
+    ) => void;
+
+    /**
+     * Stop attaching a registered property
+     * @param key - The property name
+     */
+    unregister: (key: string) => void;
+
+    /**
+     * Get notified about the status of every payload
+     * @param inspector - Called each time a payload changes status
+     * @returns A function that stops the notifications
+     */
+    inspect: (
+        inspector: (inspection: {
+            status:
+                | 'sent'
+                | 'failed'
+                | 'queued'
+                | 'buffered'
+                | 'paused'
+                | 'dropped';
+            payload: Record<string, unknown>;
+            reason?: string;
+            timestamp: number;
+        }) => void,
+    ) => () => void;
+
+    /**
+     * Hold payloads instead of sending them until sending is resumed
+     * @param paused - Whether sending is paused
+     */
+    setPaused: (paused: boolean) => void;
+
+    /**
+     * Payloads recorded by the memory transport, oldest first
+     */
+    getSentEvents: () => Record<string, unknown>[];
+
+    /**
+     * Forget the payloads recorded by the memory transport
      */
-    trackCustomEvent: (name: string) => void;
+    clearSentEvents: () => void;
+
+    /**
+     * Track a visitor viewing a product. Like the other commerce functions,
+     * only set by the CDN script, npm users register createCommercePlugin().
+     * @param product - The product, `id` is required
+     */
+    trackProductView?: (product: LwsAnalyticsProduct) => void;
+
+    /**
+     * Track a product being added to the cart
+     * @param product - The product with the added `quantity`
+     */
+    trackAddToCart?: (product: LwsAnalyticsProduct) => void;
+
+    /**
+     * Track a product being removed from the cart
+     * @param product - The product with the removed `quantity`
+     */
+    trackRemoveFromCart?: (product: LwsAnalyticsProduct) => void;
+
+    /**
+     * Track progress through the checkout
+     * @param step - The step number, with an optional name, option and items
+     */
+    trackCheckoutStep?: (step: {
+        step: number;
+        name?: string;
+        option?: string;
+        items?: LwsAnalyticsProduct[];
+    }) => void;
+
+    /**
+     * Track a completed order, ignoring orders that were already tracked
+     * @param purchase - The order with `orderId`, `revenue`, `currency` and `items`
+     */
+    trackPurchase?: (purchase: {
+        orderId: string;
+        revenue: number;
+        currency: string;
+        items: LwsAnalyticsProduct[];
+        tax?: number;
+        shipping?: number;
+        coupon?: string;
+    }) => void;
 }
 
 declare global {
@@ -37,7 +201,8 @@ declare global {
         LWS_ANALYTICS_SITE_ID?: string;
 
         /**
-         * LWS Analytics endpoint URL (required)
+         * LWS Analytics endpoint URL or first-party proxy path (optional,
+         * defaults to the LWS Analytics cloud endpoint)
          */
         LWS_ANALYTICS_ENDPOINT?: string;
 
@@ -46,6 +211,36 @@ declare global {
          */
         LWS_ANALYTICS_DEBUG?: boolean;
 
+        /**
+         * Buffer events until window.LwsAnalytics.setConsent() grants consent
+         */
+        LWS_ANALYTICS_REQUIRE_CONSENT?: boolean;
+
+        /**
+         * Cookieless mode: never use storage and omit the client ID
+         */
+        LWS_ANALYTICS_ANONYMOUS?: boolean;
+
+        /**
+         * How to handle Do Not Track: 'disable', 'anonymous' or 'ignore'
+         */
+        LWS_ANALYTICS_RESPECT_DNT?: 'disable' | 'anonymous' | 'ignore';
+
+        /**
+         * How to handle Global Privacy Control: 'disable', 'anonymous' or 'ignore'
+         */
+        LWS_ANALYTICS_RESPECT_GPC?: 'disable' | 'anonymous' | 'ignore';
+
+        /**
+         * How SPA navigation is detected: 'history', 'hash' or 'manual'
+         */
+        LWS_ANALYTICS_ROUTING_MODE?: 'history' | 'hash' | 'manual';
+
+        /**
+         * How payloads are delivered: 'fetch', 'beacon', 'memory' or 'console'
+         */
+        LWS_ANALYTICS_TRANSPORT?: 'fetch' | 'beacon' | 'memory' | 'console';
+
         /**
          * LWS Analytics API object
          */
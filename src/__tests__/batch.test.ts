@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createBatcher, type BatcherOptions } from '../batch';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createTestBatcher(overrides: Partial<BatcherOptions> = {}) {
+    const send = vi.fn();
+    const batcher = createBatcher({
+        maxSize: 3,
+        interval: 1000,
+        send,
+        ...overrides,
+    });
+    return { batcher, send };
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+    Object.defineProperty(document, 'visibilityState', {
+        value: state,
+        configurable: true,
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    setVisibility('visible');
+});
+
+// ---------------------------------------------------------------------------
+// Batcher
+// ---------------------------------------------------------------------------
+
+describe('batcher', () => {
+    it('sends the batch after the interval', () => {
+        const { batcher, send } = createTestBatcher();
+
+        batcher.add({ name: 'a' });
+        batcher.add({ name: 'b' });
+        expect(send).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1000);
+
+        expect(send).toHaveBeenCalledOnce();
+        expect(send).toHaveBeenCalledWith(
+            [{ name: 'a' }, { name: 'b' }],
+            false,
+        );
+    });
+
+    it('sends immediately when the batch is full', () => {
+        const { batcher, send } = createTestBatcher();
+
+        batcher.add({ name: 'a' });
+        batcher.add({ name: 'b' });
+        batcher.add({ name: 'c' });
+
+        expect(send).toHaveBeenCalledOnce();
+        expect(send.mock.calls[0][0]).toHaveLength(3);
+
+        // The interval timer was cleared with the flush
+        vi.advanceTimersByTime(1000);
+        expect(send).toHaveBeenCalledOnce();
+    });
+
+    it('does not send empty batches', () => {
+        const { batcher, send } = createTestBatcher();
+
+        batcher.flush();
+        vi.advanceTimersByTime(1000);
+
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('flushes as unloading when the page is hidden', () => {
+        const { batcher, send } = createTestBatcher();
+        batcher.start();
+
+        batcher.add({ name: 'a' });
+        setVisibility('hidden');
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        expect(send).toHaveBeenCalledWith([{ name: 'a' }], true);
+
+        batcher.stop();
+    });
+
+    it('flushes as unloading on pagehide', () => {
+        const { batcher, send } = createTestBatcher();
+        batcher.start();
+
+        batcher.add({ name: 'a' });
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(send).toHaveBeenCalledWith([{ name: 'a' }], true);
+
+        batcher.stop();
+    });
+
+    it('drops pending payloads on clear()', () => {
+        const { batcher, send } = createTestBatcher();
+
+        batcher.add({ name: 'a' });
+
+        expect(batcher.clear()).toEqual([{ name: 'a' }]);
+        vi.advanceTimersByTime(1000);
+        batcher.flush();
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('sends pending payloads and stops listening on stop()', () => {
+        const { batcher, send } = createTestBatcher();
+        batcher.start();
+
+        batcher.add({ name: 'a' });
+        batcher.stop();
+
+        expect(send).toHaveBeenCalledWith([{ name: 'a' }], false);
+
+        batcher.add({ name: 'b' });
+        window.dispatchEvent(new Event('pagehide'));
+        expect(send).toHaveBeenCalledOnce();
+    });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    classifyReferrer,
+    createCampaignTracker,
+    DEFAULT_CAMPAIGN_PARAMS,
+    DEFAULT_CLICK_ID_PARAMS,
+    type CampaignTrackerOptions,
+} from '../campaign';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'test_campaign';
+const WINDOW = 30 * 24 * 60 * 60 * 1000;
+
+function createTracker(overrides: Partial<CampaignTrackerOptions> = {}) {
+    return createCampaignTracker({
+        storageKey: STORAGE_KEY,
+        params: DEFAULT_CAMPAIGN_PARAMS,
+        clickIdParams: DEFAULT_CLICK_ID_PARAMS,
+        attributionWindow: WINDOW,
+        canPersist: () => true,
+        log: vi.fn(),
+        ...overrides,
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// classifyReferrer()
+// ---------------------------------------------------------------------------
+
+describe('classifyReferrer()', () => {
+    it('classifies search engines, social networks and other sites', () => {
+        expect(classifyReferrer('https://www.google.nl/', 'a.test')).toEqual({
+            type: 'search',
+            host: 'www.google.nl',
+        });
+        expect(classifyReferrer('https://duckduckgo.com/', 'a.test').type).toBe(
+            'search',
+        );
+        expect(classifyReferrer('https://t.co/abc', 'a.test').type).toBe(
+            'social',
+        );
+        expect(classifyReferrer('https://m.facebook.com/', 'a.test').type).toBe(
+            'social',
+        );
+        expect(classifyReferrer('https://blog.example.com/', 'a.test')).toEqual(
+            { type: 'referral', host: 'blog.example.com' },
+        );
+    });
+
+    it('does not match hosts that only contain a known name', () => {
+        expect(classifyReferrer('https://notx.com/', 'a.test').type).toBe(
+            'referral',
+        );
+    });
+
+    it('detects direct and internal traffic', () => {
+        expect(classifyReferrer('', 'a.test')).toEqual({
+            type: 'direct',
+            host: null,
+        });
+        expect(classifyReferrer('https://a.test/page', 'a.test').type).toBe(
+            'internal',
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// createCampaignTracker()
+// ---------------------------------------------------------------------------
+
+describe('createCampaignTracker()', () => {
+    it('extracts campaign parameters and click IDs', () => {
+        const tracker = createTracker();
+
+        tracker.capture(
+            'https://a.test/landing?utm_source=news&utm_medium=email&gclid=abc&page=2',
+            'https://www.google.com/',
+        );
+
+        expect(tracker.current()?.lastTouch).toMatchObject({
+            params: { utm_source: 'news', utm_medium: 'email' },
+            clickIds: { gclid: 'abc' },
+            referrerType: 'search',
+            referrerHost: 'www.google.com',
+            landingPath: '/landing',
+        });
+    });
+
+    it('keeps the first touch and updates the last touch', () => {
+        const tracker = createTracker();
+
+        tracker.capture('https://a.test/?utm_source=news', '');
+        vi.advanceTimersByTime(1000);
+        tracker.capture('https://a.test/?utm_source=ads', '');
+
+        const attribution = tracker.current();
+        expect(attribution?.firstTouch.params.utm_source).toBe('news');
+        expect(attribution?.lastTouch.params.utm_source).toBe('ads');
+    });
+
+    it('does not replace a touch with direct or internal traffic', () => {
+        const tracker = createTracker();
+
+        tracker.capture('https://a.test/?utm_source=news', '');
+        tracker.capture('https://a.test/pricing', '');
+        tracker.capture('https://a.test/about', 'https://a.test/pricing');
+
+        expect(tracker.current()?.lastTouch.params.utm_source).toBe('news');
+    });
+
+    it('records a direct first visit', () => {
+        const tracker = createTracker();
+
+        tracker.capture('https://a.test/', '');
+
+        expect(tracker.current()?.firstTouch.referrerType).toBe('direct');
+    });
+
+    it('replaces a direct touch with a referral', () => {
+        const tracker = createTracker();
+
+        tracker.capture('https://a.test/', '');
+        tracker.capture('https://a.test/', 'https://blog.example.com/post');
+
+        const attribution = tracker.current();
+        expect(attribution?.firstTouch.referrerType).toBe('direct');
+        expect(attribution?.lastTouch.referrerType).toBe('referral');
+    });
+
+    it('persists attribution across page loads', () => {
+        createTracker().capture('https://a.test/?utm_source=news', '');
+
+        expect(createTracker().current()?.firstTouch.params.utm_source).toBe(
+            'news',
+        );
+    });
+
+    it('keeps attribution in memory when it may not be persisted', () => {
+        let canPersist = false;
+        const tracker = createTracker({ canPersist: () => canPersist });
+
+        tracker.capture('https://a.test/?utm_source=news', '');
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+
+        canPersist = true;
+        tracker.save();
+        expect(localStorage.getItem(STORAGE_KEY)).toContain('news');
+    });
+
+    it('discards touches outside the attribution window', () => {
+        const tracker = createTracker();
+
+        tracker.capture('https://a.test/?utm_source=news', '');
+        vi.advanceTimersByTime(WINDOW / 2);
+        tracker.capture('https://a.test/?utm_source=ads', '');
+
+        vi.advanceTimersByTime(WINDOW / 2 + 1);
+        expect(tracker.current()?.firstTouch.params.utm_source).toBe('ads');
+
+        vi.advanceTimersByTime(WINDOW);
+        expect(tracker.current()).toBeNull();
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('uses the configured parameter lists', () => {
+        const tracker = createTracker({
+            params: ['ref'],
+            clickIdParams: ['irclickid'],
+        });
+
+        tracker.capture(
+            'https://a.test/?ref=partner&irclickid=xyz&utm_source=news',
+            '',
+        );
+
+        expect(tracker.current()?.lastTouch).toMatchObject({
+            params: { ref: 'partner' },
+            clickIds: { irclickid: 'xyz' },
+        });
+    });
+
+    it('clears the attribution', () => {
+        const tracker = createTracker();
+        tracker.capture('https://a.test/?utm_source=news', '');
+
+        tracker.clear();
+
+        expect(tracker.current()).toBeNull();
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+});
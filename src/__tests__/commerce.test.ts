@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    createOrderRegistry,
+    serializeProduct,
+    serializeProducts,
+    serializePurchase,
+    type Purchase,
+} from '../commerce';
+
+const STORAGE_KEY = 'lws_analytics_orders:test-site';
+
+const purchase: Purchase = {
+    orderId: 'order-1',
+    revenue: 59.9,
+    currency: 'EUR',
+    items: [{ id: 'sku-1', price: 29.95, quantity: 2 }],
+};
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// serializeProduct()
+// ---------------------------------------------------------------------------
+
+describe('serializeProduct()', () => {
+    it('keeps the known product fields', () => {
+        expect(
+            serializeProduct(
+                {
+                    id: 'sku-1',
+                    name: 'T-shirt',
+                    category: 'Apparel',
+                    brand: 'LWS',
+                    variant: 'Blue',
+                    price: 19.5,
+                    quantity: 2,
+                    currency: 'EUR',
+                },
+                vi.fn(),
+            ),
+        ).toEqual({
+            id: 'sku-1',
+            name: 'T-shirt',
+            category: 'Apparel',
+            brand: 'LWS',
+            variant: 'Blue',
+            price: 19.5,
+            quantity: 2,
+            currency: 'EUR',
+        });
+    });
+
+    it('drops unknown fields', () => {
+        const product = { id: 'sku-1', secret: 'x' } as never;
+
+        expect(serializeProduct(product, vi.fn())).toEqual({ id: 'sku-1' });
+    });
+
+    it('rejects products without an id', () => {
+        const warn = vi.fn();
+
+        expect(serializeProduct({ id: '' }, warn)).toBeNull();
+        expect(warn).toHaveBeenCalled();
+    });
+
+    it('drops prices that are not numbers', () => {
+        const warn = vi.fn();
+        const product = { id: 'sku-1', price: '19.50' } as never;
+
+        expect(serializeProduct(product, warn)).toEqual({ id: 'sku-1' });
+        expect(warn).toHaveBeenCalled();
+    });
+});
+
+describe('serializeProducts()', () => {
+    it('skips invalid products', () => {
+        expect(
+            serializeProducts([{ id: 'sku-1' }, { id: '' }], vi.fn()),
+        ).toEqual([{ id: 'sku-1' }]);
+    });
+
+    it('returns an empty list without products', () => {
+        expect(serializeProducts(undefined, vi.fn())).toEqual([]);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// serializePurchase()
+// ---------------------------------------------------------------------------
+
+describe('serializePurchase()', () => {
+    it('converts the purchase to the payload format', () => {
+        expect(
+            serializePurchase(
+                { ...purchase, tax: 9.56, shipping: 4.95, coupon: 'SUMMER' },
+                vi.fn(),
+            ),
+        ).toEqual({
+            order_id: 'order-1',
+            revenue: 59.9,
+            currency: 'EUR',
+            tax: 9.56,
+            shipping: 4.95,
+            coupon: 'SUMMER',
+            items: [{ id: 'sku-1', price: 29.95, quantity: 2 }],
+        });
+    });
+
+    it.each([
+        ['an order ID', { orderId: '' }],
+        ['a numeric revenue', { revenue: Number.NaN }],
+        ['an ISO 4217 currency', { currency: 'euro' }],
+    ])('requires %s', (_, override) => {
+        const warn = vi.fn();
+
+        expect(
+            serializePurchase({ ...purchase, ...override }, warn),
+        ).toBeNull();
+        expect(warn).toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// createOrderRegistry()
+// ---------------------------------------------------------------------------
+
+describe('createOrderRegistry()', () => {
+    function createRegistry(canPersist = true, maxSize = 50) {
+        return createOrderRegistry({
+            storageKey: STORAGE_KEY,
+            maxSize,
+            canPersist: () => canPersist,
+        });
+    }
+
+    it('accepts each order ID once', () => {
+        const registry = createRegistry();
+
+        expect(registry.add('order-1')).toBe(true);
+        expect(registry.add('order-1')).toBe(false);
+        expect(registry.add('order-2')).toBe(true);
+    });
+
+    it('remembers order IDs across page loads', () => {
+        createRegistry().add('order-1');
+
+        expect(createRegistry().add('order-1')).toBe(false);
+    });
+
+    it('sees orders tracked by another tab', () => {
+        const registry = createRegistry();
+        createRegistry().add('order-1');
+
+        expect(registry.add('order-1')).toBe(false);
+    });
+
+    it('forgets the oldest order IDs', () => {
+        const registry = createRegistry(true, 2);
+        registry.add('order-1');
+        registry.add('order-2');
+        registry.add('order-3');
+
+        expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual([
+            'order-2',
+            'order-3',
+        ]);
+        expect(registry.add('order-1')).toBe(true);
+    });
+
+    it('keeps order IDs in memory when storage may not be used', () => {
+        const registry = createRegistry(false);
+
+        registry.add('order-1');
+
+        expect(registry.add('order-1')).toBe(false);
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('writes order IDs kept in memory on save()', () => {
+        let canPersist = false;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(['order-0']));
+        const registry = createOrderRegistry({
+            storageKey: STORAGE_KEY,
+            maxSize: 50,
+            canPersist: () => canPersist,
+        });
+        registry.add('order-1');
+
+        canPersist = true;
+        registry.save();
+
+        expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual([
+            'order-0',
+            'order-1',
+        ]);
+    });
+
+    it('removes stored order IDs on clear()', () => {
+        const registry = createRegistry();
+        registry.add('order-1');
+
+        registry.clear();
+
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+        expect(registry.add('order-1')).toBe(true);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createTcfConsentAdapter } from '../consent';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type TcfCallback = (data: Record<string, unknown>, success: boolean) => void;
+
+function stubTcfApi() {
+    let callback: TcfCallback = () => {};
+    const api = vi.fn((command: string, _version: number, cb: TcfCallback) => {
+        if (command === 'addEventListener') {
+            callback = cb;
+        }
+    });
+    (window as unknown as { __tcfapi: typeof api }).__tcfapi = api;
+
+    return {
+        api,
+        emit: (data: Record<string, unknown>, success = true) =>
+            callback({ listenerId: 7, ...data }, success),
+    };
+}
+
+afterEach(() => {
+    delete (window as unknown as { __tcfapi?: unknown }).__tcfapi;
+});
+
+// ---------------------------------------------------------------------------
+// TCF adapter
+// ---------------------------------------------------------------------------
+
+describe('TCF consent adapter', () => {
+    it('grants consent when the analytics purposes are consented', () => {
+        const { emit } = stubTcfApi();
+        const listener = vi.fn();
+        createTcfConsentAdapter().subscribe(listener);
+
+        emit({
+            eventStatus: 'useractioncomplete',
+            gdprApplies: true,
+            purpose: { consents: { 1: true, 8: true } },
+        });
+
+        expect(listener).toHaveBeenCalledWith({ analytics: true });
+    });
+
+    it('denies consent when a purpose is missing', () => {
+        const { emit } = stubTcfApi();
+        const listener = vi.fn();
+        createTcfConsentAdapter().subscribe(listener);
+
+        emit({
+            eventStatus: 'tcloaded',
+            gdprApplies: true,
+            purpose: { consents: { 1: true } },
+        });
+
+        expect(listener).toHaveBeenCalledWith({ analytics: false });
+    });
+
+    it('grants consent when GDPR does not apply', () => {
+        const { emit } = stubTcfApi();
+        const listener = vi.fn();
+        createTcfConsentAdapter().subscribe(listener);
+
+        emit({ eventStatus: 'tcloaded', gdprApplies: false });
+
+        expect(listener).toHaveBeenCalledWith({ analytics: true });
+    });
+
+    it('ignores events before the user made a choice', () => {
+        const { emit } = stubTcfApi();
+        const listener = vi.fn();
+        createTcfConsentAdapter().subscribe(listener);
+
+        emit({ eventStatus: 'cmpuishown', gdprApplies: true });
+        emit({ eventStatus: 'tcloaded' }, false);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('removes its listener on unsubscribe', () => {
+        const { api, emit } = stubTcfApi();
+        const unsubscribe = createTcfConsentAdapter().subscribe(() => {});
+        emit({ eventStatus: 'tcloaded', gdprApplies: false });
+
+        unsubscribe();
+
+        expect(api).toHaveBeenCalledWith(
+            'removeEventListener',
+            2,
+            expect.any(Function),
+            7,
+        );
+    });
+
+    it('does nothing when no CMP is present', () => {
+        const listener = vi.fn();
+        const unsubscribe = createTcfConsentAdapter().subscribe(listener);
+
+        expect(() => unsubscribe()).not.toThrow();
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
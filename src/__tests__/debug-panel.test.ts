@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    createDebugPanel,
+    type DebugPanel,
+    type DebugPanelTarget,
+} from '../debug-panel';
+import type { PayloadInspection, PayloadInspector } from '../types';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let panel: DebugPanel | null = null;
+
+function createTarget() {
+    let inspector: PayloadInspector | null = null;
+    const unsubscribe = vi.fn();
+    const target: DebugPanelTarget = {
+        inspect: (callback) => {
+            inspector = callback;
+            return unsubscribe;
+        },
+        setPaused: vi.fn(),
+    };
+    const emit = (inspection: Partial<PayloadInspection>) =>
+        inspector?.({
+            status: 'sent',
+            payload: { type: 'custom', name: 'signup', path: '/' },
+            timestamp: Date.now(),
+            ...inspection,
+        });
+    return { target, emit, unsubscribe };
+}
+
+function shadow() {
+    return document.getElementById('lwsa-debug-panel')!.shadowRoot!;
+}
+
+function rows() {
+    return Array.from(shadow().querySelectorAll('li:not(.empty)'));
+}
+
+function button(label: string) {
+    return Array.from(shadow().querySelectorAll('button')).find(
+        (node) => node.textContent === label,
+    )!;
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+afterEach(() => {
+    panel?.destroy();
+    panel = null;
+});
+
+// ---------------------------------------------------------------------------
+// createDebugPanel()
+// ---------------------------------------------------------------------------
+
+describe('createDebugPanel()', () => {
+    it('lists payloads with their status, newest first', () => {
+        const { target, emit } = createTarget();
+        panel = createDebugPanel(target);
+
+        emit({ status: 'sent' });
+        emit({
+            status: 'dropped',
+            reason: 'consent',
+            payload: { type: 'page_view', name: 'Page view', path: '/a' },
+        });
+
+        const [first, second] = rows();
+        expect(first.textContent).toContain('dropped');
+        expect(first.textContent).toContain('page_view · Page view');
+        expect(first.textContent).toContain('(consent)');
+        expect(second.textContent).toContain('sent');
+    });
+
+    it('shows the payload JSON when a row is clicked', () => {
+        const { target, emit } = createTarget();
+        panel = createDebugPanel(target);
+        emit({});
+
+        (rows()[0] as HTMLElement).click();
+
+        expect(shadow().querySelector('pre')?.textContent).toContain(
+            '"name": "signup"',
+        );
+    });
+
+    it('filters payloads by type', () => {
+        const { target, emit } = createTarget();
+        panel = createDebugPanel(target);
+        emit({});
+        emit({ payload: { type: 'page_view', name: 'Page view' } });
+
+        const select = shadow().querySelector('select')!;
+        select.value = 'page_view';
+        select.dispatchEvent(new Event('change'));
+
+        expect(rows()).toHaveLength(1);
+        expect(rows()[0].textContent).toContain('page_view');
+    });
+
+    it('toggles sending with the pause button', () => {
+        const { target } = createTarget();
+        panel = createDebugPanel(target);
+
+        button('Pause').click();
+        expect(target.setPaused).toHaveBeenLastCalledWith(true);
+
+        button('Resume').click();
+        expect(target.setPaused).toHaveBeenLastCalledWith(false);
+    });
+
+    it('clears the list', () => {
+        const { target, emit } = createTarget();
+        panel = createDebugPanel(target);
+        emit({});
+
+        button('Clear').click();
+
+        expect(rows()).toHaveLength(0);
+    });
+
+    it('shows a single panel at a time', () => {
+        const { target } = createTarget();
+        panel = createDebugPanel(target);
+
+        expect(createDebugPanel(target)).toBe(panel);
+        expect(document.querySelectorAll('#lwsa-debug-panel')).toHaveLength(1);
+    });
+
+    it('resumes sending and unsubscribes when closed', () => {
+        const { target, unsubscribe } = createTarget();
+        panel = createDebugPanel(target);
+        button('Pause').click();
+
+        button('×').click();
+        panel = null;
+
+        expect(unsubscribe).toHaveBeenCalled();
+        expect(target.setPaused).toHaveBeenLastCalledWith(false);
+        expect(document.getElementById('lwsa-debug-panel')).toBeNull();
+    });
+
+    it('renders payload values as text', () => {
+        const { target, emit } = createTarget();
+        panel = createDebugPanel(target);
+
+        emit({ payload: { type: 'custom', name: '<img src=x>' } });
+
+        expect(shadow().querySelector('img')).toBeNull();
+    });
+});
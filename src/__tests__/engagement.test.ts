@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    createEngagementTracker,
+    type EngagementTrackerOptions,
+} from '../engagement';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createTracker(overrides: Partial<EngagementTrackerOptions> = {}) {
+    const onPageHide = vi.fn();
+    const tracker = createEngagementTracker({
+        idleTimeout: 5000,
+        scrollMilestones: [25, 50, 75, 100],
+        onPageHide,
+        getPath: () => window.location.pathname,
+        ...overrides,
+    });
+    return { tracker, onPageHide };
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+    Object.defineProperty(document, 'visibilityState', {
+        value: state,
+        configurable: true,
+    });
+    document.dispatchEvent(new Event('visibilitychange'));
+}
+
+function setScroll(scrollY: number, pageHeight = 4000, viewport = 1000) {
+    Object.defineProperty(document.documentElement, 'scrollHeight', {
+        value: pageHeight,
+        configurable: true,
+    });
+    vi.stubGlobal('innerHeight', viewport);
+    vi.stubGlobal('scrollY', scrollY);
+    window.dispatchEvent(new Event('scroll'));
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    Object.defineProperty(document, 'visibilityState', {
+        value: 'visible',
+        configurable: true,
+    });
+    delete (document.documentElement as unknown as Record<string, unknown>)
+        .scrollHeight;
+});
+
+// ---------------------------------------------------------------------------
+// Engagement time
+// ---------------------------------------------------------------------------
+
+describe('engagement time', () => {
+    it('counts time while the visitor is active', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        vi.advanceTimersByTime(3000);
+
+        expect(tracker.collect().engagementTime).toBe(3000);
+        tracker.stop();
+    });
+
+    it('pauses after the idle timeout', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        vi.advanceTimersByTime(20000);
+
+        expect(tracker.collect().engagementTime).toBe(5000);
+        tracker.stop();
+    });
+
+    it('resumes on user input', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        vi.advanceTimersByTime(10000);
+        document.dispatchEvent(new Event('keydown'));
+        vi.advanceTimersByTime(2000);
+
+        expect(tracker.collect().engagementTime).toBe(7000);
+        tracker.stop();
+    });
+
+    it('pauses while the tab is hidden', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        vi.advanceTimersByTime(1000);
+        setVisibility('hidden');
+        vi.advanceTimersByTime(3000);
+        setVisibility('visible');
+        vi.advanceTimersByTime(1000);
+
+        expect(tracker.collect().engagementTime).toBe(2000);
+        tracker.stop();
+    });
+
+    it('starts from zero after reset()', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        vi.advanceTimersByTime(3000);
+        tracker.reset();
+
+        expect(tracker.collect().engagementTime).toBe(0);
+        tracker.stop();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Scroll depth
+// ---------------------------------------------------------------------------
+
+describe('scroll depth', () => {
+    it('reports the highest milestone reached', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        setScroll(1500); // (1500 + 1000) / 4000 = 62.5%
+        setScroll(0);
+
+        expect(tracker.collect().scrollDepth).toBe(50);
+        tracker.stop();
+    });
+
+    it('reports 100 at the bottom of the page', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        setScroll(3000);
+
+        expect(tracker.collect().scrollDepth).toBe(100);
+        tracker.stop();
+    });
+
+    it('reports 0 below the first milestone', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        setScroll(0, 10000);
+
+        expect(tracker.collect().scrollDepth).toBe(0);
+        tracker.stop();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+describe('engagement lifecycle', () => {
+    it('calls onPageHide on pagehide', () => {
+        const { tracker, onPageHide } = createTracker();
+        tracker.start();
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(onPageHide).toHaveBeenCalledOnce();
+        tracker.stop();
+    });
+
+    it('remembers the page it measures', () => {
+        const { tracker } = createTracker();
+        tracker.start();
+
+        expect(tracker.collect().path).toBe(window.location.pathname);
+        tracker.stop();
+    });
+
+    it('removes listeners on stop()', () => {
+        const { tracker, onPageHide } = createTracker();
+        tracker.start();
+        tracker.stop();
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(onPageHide).not.toHaveBeenCalled();
+    });
+});
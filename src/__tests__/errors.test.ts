@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createErrorTracker,
+    normalizeError,
+    type ErrorTrackerOptions,
+} from '../errors';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createTracker(overrides: Partial<ErrorTrackerOptions> = {}) {
+    const onError = vi.fn();
+    const tracker = createErrorTracker({
+        rateLimit: 10,
+        onError,
+        log: () => {},
+        ...overrides,
+    });
+    return { tracker, onError };
+}
+
+// ---------------------------------------------------------------------------
+// normalizeError()
+// ---------------------------------------------------------------------------
+
+describe('normalizeError()', () => {
+    it('normalizes Error instances', () => {
+        const error = new TypeError('x is undefined');
+
+        expect(normalizeError(error, 'manual')).toMatchObject({
+            source: 'manual',
+            name: 'TypeError',
+            message: 'x is undefined',
+            stack: expect.stringContaining('x is undefined'),
+        });
+    });
+
+    it('normalizes non-Error values', () => {
+        expect(normalizeError('boom', 'unhandledrejection')).toMatchObject({
+            name: null,
+            message: 'boom',
+            stack: null,
+        });
+        expect(normalizeError({ code: 42 }, 'manual').message).toBe(
+            '{"code":42}',
+        );
+        expect(normalizeError(undefined, 'manual').message).toBe('undefined');
+    });
+
+    it('includes the location', () => {
+        expect(
+            normalizeError('boom', 'error', {
+                filename: 'https://example.com/app.js',
+                line: 12,
+                column: 5,
+            }),
+        ).toMatchObject({
+            filename: 'https://example.com/app.js',
+            line: 12,
+            column: 5,
+        });
+    });
+
+    it('truncates long messages and stacks', () => {
+        const error = new Error('x'.repeat(1000));
+        error.stack = 'y'.repeat(5000);
+
+        const normalized = normalizeError(error, 'manual');
+
+        expect(normalized.message).toHaveLength(500);
+        expect(normalized.stack).toHaveLength(2000);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Error tracker
+// ---------------------------------------------------------------------------
+
+describe('error tracker', () => {
+    it('captures uncaught errors', () => {
+        const { tracker, onError } = createTracker();
+        tracker.start();
+
+        window.dispatchEvent(
+            new ErrorEvent('error', {
+                message: 'boom',
+                error: new Error('boom'),
+                filename: 'app.js',
+                lineno: 3,
+                colno: 7,
+            }),
+        );
+
+        expect(onError).toHaveBeenCalledWith(
+            expect.objectContaining({
+                source: 'error',
+                message: 'boom',
+                filename: 'app.js',
+                line: 3,
+                column: 7,
+            }),
+            undefined,
+        );
+        tracker.stop();
+    });
+
+    it('captures unhandled rejections', () => {
+        const { tracker, onError } = createTracker();
+        tracker.start();
+
+        const event = new Event('unhandledrejection');
+        Object.assign(event, { reason: new Error('rejected') });
+        window.dispatchEvent(event);
+
+        expect(onError).toHaveBeenCalledWith(
+            expect.objectContaining({
+                source: 'unhandledrejection',
+                message: 'rejected',
+            }),
+            undefined,
+        );
+        tracker.stop();
+    });
+
+    it('passes context for manual captures', () => {
+        const { tracker, onError } = createTracker();
+
+        tracker.capture(new Error('manual'), { component: 'checkout' });
+
+        expect(onError).toHaveBeenCalledWith(
+            expect.objectContaining({ source: 'manual' }),
+            { component: 'checkout' },
+        );
+    });
+
+    it('deduplicates identical errors', () => {
+        const { tracker, onError } = createTracker();
+
+        for (let i = 0; i < 5; i++) {
+            tracker.capture(new Error('same'));
+        }
+
+        expect(onError).toHaveBeenCalledOnce();
+    });
+
+    it('rate limits distinct errors', () => {
+        vi.useFakeTimers();
+        const { tracker, onError } = createTracker({ rateLimit: 3 });
+
+        for (let i = 0; i < 10; i++) {
+            tracker.capture(new Error('error ' + i));
+        }
+        expect(onError).toHaveBeenCalledTimes(3);
+
+        vi.advanceTimersByTime(60 * 1000);
+        tracker.capture(new Error('after window'));
+        expect(onError).toHaveBeenCalledTimes(4);
+
+        vi.useRealTimers();
+    });
+
+    it('stops listening on stop()', () => {
+        const { tracker, onError } = createTracker();
+        tracker.start();
+        tracker.stop();
+
+        window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+
+        expect(onError).not.toHaveBeenCalled();
+    });
+});
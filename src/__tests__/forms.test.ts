@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFormTracker, type FormEvent, type FormTracker } from '../forms';
+
+const page = { url: 'http://localhost:3000/', path: '/' };
+
+let tracker: FormTracker;
+let events: FormEvent[];
+
+function focus(selector: string) {
+    document
+        .querySelector(selector)!
+        .dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+}
+
+function type(selector: string, value: string) {
+    const field = document.querySelector<HTMLInputElement>(selector)!;
+    field.value = value;
+    field.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+function submit(selector = 'form') {
+    document
+        .querySelector(selector)!
+        .dispatchEvent(
+            new SubmitEvent('submit', { bubbles: true, cancelable: true }),
+        );
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    events = [];
+    document.body.innerHTML = `
+        <form data-lwsa-form="signup">
+            <input name="email" type="email">
+            <input name="password" type="password">
+            <select id="plan"><option>free</option></select>
+            <input type="hidden" name="token" value="secret">
+            <button type="submit">Sign up</button>
+        </form>
+        <form id="search"><input name="q"></form>
+    `;
+    tracker = createFormTracker({
+        onFormEvent: (event) => events.push(event),
+        getPath: () => window.location.pathname,
+    });
+    tracker.start();
+});
+
+afterEach(() => {
+    tracker.stop();
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// createFormTracker()
+// ---------------------------------------------------------------------------
+
+describe('createFormTracker()', () => {
+    it('reports a form start on the first field focus', () => {
+        focus('[name=email]');
+        focus('[name=password]');
+
+        expect(events).toEqual([
+            {
+                type: 'form_start',
+                form: 'signup',
+                lastField: 'email',
+                fieldsTouched: 1,
+                duration: null,
+                ...page,
+            },
+        ]);
+    });
+
+    it('reports a submit with the last field and time to complete', () => {
+        focus('[name=email]');
+        type('[name=email]', 'jane@example.com');
+        vi.advanceTimersByTime(4000);
+        focus('#plan');
+
+        submit();
+
+        expect(events[1]).toEqual({
+            type: 'form_submit',
+            form: 'signup',
+            lastField: 'plan',
+            fieldsTouched: 2,
+            duration: 4000,
+            ...page,
+        });
+    });
+
+    it('reports abandonment on pagehide after a start', () => {
+        focus('[name=email]');
+        vi.advanceTimersByTime(2500);
+        focus('[name=password]');
+
+        window.dispatchEvent(new Event('pagehide'));
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(events.slice(1)).toEqual([
+            {
+                type: 'form_abandon',
+                form: 'signup',
+                lastField: 'password',
+                fieldsTouched: 2,
+                duration: 2500,
+                ...page,
+            },
+        ]);
+    });
+
+    it('reports started forms as abandoned on abandon()', () => {
+        focus('[name=email]');
+        history.pushState(null, '', '/next');
+
+        tracker.abandon();
+        window.dispatchEvent(new Event('pagehide'));
+        history.replaceState(null, '', '/');
+
+        expect(events.slice(1)).toEqual([
+            expect.objectContaining({ type: 'form_abandon', ...page }),
+        ]);
+    });
+
+    it('reports removed forms as abandoned when another form starts', () => {
+        focus('[name=email]');
+        const signup = document.querySelector('form')!;
+        signup.remove();
+        document.querySelector('#search')!.setAttribute('data-lwsa-form', '');
+
+        focus('[name=q]');
+
+        expect(events.map(({ type, form }) => [type, form])).toEqual([
+            ['form_start', 'signup'],
+            ['form_abandon', 'signup'],
+            ['form_start', 'search'],
+        ]);
+    });
+
+    it('does not report abandonment after a submit', () => {
+        focus('[name=email]');
+        submit();
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(events.map((event) => event.type)).toEqual([
+            'form_start',
+            'form_submit',
+        ]);
+    });
+
+    it('does not report abandonment for forms that were not started', () => {
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(events).toEqual([]);
+    });
+
+    it('reports submits without interaction', () => {
+        submit();
+
+        expect(events).toEqual([
+            expect.objectContaining({
+                type: 'form_submit',
+                lastField: null,
+                duration: null,
+                ...page,
+            }),
+        ]);
+    });
+
+    it('never reports field values', () => {
+        focus('[name=email]');
+        type('[name=email]', 'jane@example.com');
+        type('[name=password]', 'hunter2');
+        submit();
+
+        const serialized = JSON.stringify(events);
+        expect(serialized).not.toContain('jane@example.com');
+        expect(serialized).not.toContain('hunter2');
+        expect(serialized).not.toContain('secret');
+    });
+
+    it('ignores forms without data-lwsa-form', () => {
+        focus('[name=q]');
+        submit('#search');
+
+        expect(events).toEqual([]);
+    });
+
+    it('ignores buttons', () => {
+        focus('button');
+
+        expect(events).toEqual([]);
+    });
+
+    it('tracks fields that belong to a form from outside of it', () => {
+        document.querySelector('form')!.id = 'signup-form';
+        document.body.insertAdjacentHTML(
+            'beforeend',
+            '<input name="coupon" form="signup-form">',
+        );
+
+        focus('[name=coupon]');
+
+        expect(events[0]).toMatchObject({
+            form: 'signup',
+            lastField: 'coupon',
+        });
+    });
+
+    it('falls back to the form id when the attribute is empty', () => {
+        const form = document.querySelector('form')!;
+        form.setAttribute('data-lwsa-form', '');
+        form.id = 'register';
+
+        focus('[name=email]');
+
+        expect(events[0].form).toBe('register');
+    });
+
+    it('stops listening on stop()', () => {
+        tracker.stop();
+
+        focus('[name=email]');
+        submit();
+
+        expect(events).toEqual([]);
+    });
+});
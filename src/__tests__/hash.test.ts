@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { sha256 } from '../hash';
+
+// ---------------------------------------------------------------------------
+// sha256()
+// ---------------------------------------------------------------------------
+
+describe('sha256()', () => {
+    it('matches the standard test vectors', () => {
+        expect(sha256('')).toBe(
+            'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+        );
+        expect(sha256('abc')).toBe(
+            'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+        );
+        expect(
+            sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'),
+        ).toBe(
+            '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+        );
+    });
+
+    it('hashes multi-block and non-ASCII input', () => {
+        expect(sha256('a'.repeat(1000))).toBe(
+            '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3',
+        );
+        expect(sha256('héllo')).toBe(
+            '3c48591d8d098a4538f5e013dfcf406e948eac4d3277b10bf614e295d6068179',
+        );
+    });
+});
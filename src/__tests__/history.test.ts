@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { subscribeToNavigation } from '../history';
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+const originalPushState = history.pushState;
+const originalReplaceState = history.replaceState;
+
+beforeEach(() => {
+    history.replaceState(null, '', '/');
+});
+
+afterEach(() => {
+    history.pushState = originalPushState;
+    history.replaceState = originalReplaceState;
+});
+
+// ---------------------------------------------------------------------------
+// subscribeToNavigation()
+// ---------------------------------------------------------------------------
+
+describe('subscribeToNavigation()', () => {
+    it('notifies on pushState, replaceState and popstate', () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeToNavigation(listener);
+
+        history.pushState({}, '', '/a');
+        history.replaceState({}, '', '/b');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+
+        expect(listener).toHaveBeenCalledTimes(3);
+        expect(window.location.pathname).toBe('/b');
+        unsubscribe();
+    });
+
+    it('patches history once for all subscribers', () => {
+        const first = subscribeToNavigation(vi.fn());
+        const patched = history.pushState;
+        const second = subscribeToNavigation(vi.fn());
+
+        expect(history.pushState).toBe(patched);
+        expect(history.pushState).not.toBe(originalPushState);
+
+        first();
+        second();
+    });
+
+    it('keeps notifying remaining subscribers when one unsubscribes', () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        const unsubscribeFirst = subscribeToNavigation(first);
+        const unsubscribeSecond = subscribeToNavigation(second);
+
+        unsubscribeFirst();
+        history.pushState({}, '', '/a');
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledTimes(1);
+        unsubscribeSecond();
+    });
+
+    it('restores the original methods after the last unsubscribe', () => {
+        const first = subscribeToNavigation(vi.fn());
+        const second = subscribeToNavigation(vi.fn());
+
+        first();
+        expect(history.pushState).not.toBe(originalPushState);
+
+        second();
+        expect(history.pushState).toBe(originalPushState);
+        expect(history.replaceState).toBe(originalReplaceState);
+    });
+
+    it('leaves history alone when another script wrapped the patch', () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeToNavigation(listener);
+
+        const patched = history.pushState;
+        const wrapper = vi.fn(function (
+            this: History,
+            ...args: Parameters<History['pushState']>
+        ) {
+            patched.apply(this, args);
+        });
+        history.pushState = wrapper;
+
+        unsubscribe();
+        expect(history.pushState).toBe(wrapper);
+
+        // The stale patch stays inert and is reused by the next subscriber
+        history.pushState({}, '', '/a');
+        expect(listener).not.toHaveBeenCalled();
+
+        const next = vi.fn();
+        const unsubscribeNext = subscribeToNavigation(next);
+        history.pushState({}, '', '/b');
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(wrapper).toHaveBeenCalledTimes(2);
+
+        // Unwrap so the patch can be removed again
+        history.pushState = patched;
+        unsubscribeNext();
+        expect(history.pushState).toBe(originalPushState);
+    });
+
+    it('ignores repeated unsubscribe calls', () => {
+        const first = subscribeToNavigation(vi.fn());
+        const second = vi.fn();
+        const unsubscribeSecond = subscribeToNavigation(second);
+
+        first();
+        first();
+        history.pushState({}, '', '/a');
+
+        expect(second).toHaveBeenCalledTimes(1);
+        unsubscribeSecond();
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createImpressionTracker } from '../impressions';
+
+class FakeIntersectionObserver {
+    static instances: FakeIntersectionObserver[] = [];
+    observed = new Set<Element>();
+
+    constructor(public callback: IntersectionObserverCallback) {
+        FakeIntersectionObserver.instances.push(this);
+    }
+
+    observe(element: Element) {
+        this.observed.add(element);
+    }
+
+    unobserve(element: Element) {
+        this.observed.delete(element);
+    }
+
+    disconnect() {
+        this.observed.clear();
+    }
+}
+
+function observer() {
+    const { instances } = FakeIntersectionObserver;
+    return instances[instances.length - 1];
+}
+
+function intersect(element: Element, ratio: number) {
+    observer().callback(
+        [
+            {
+                target: element,
+                isIntersecting: ratio > 0,
+                intersectionRatio: ratio,
+            } as IntersectionObserverEntry,
+        ],
+        observer() as unknown as IntersectionObserver,
+    );
+}
+
+function addElement(name: string) {
+    const element = document.createElement('div');
+    element.setAttribute('data-lwsa-impression', name);
+    document.body.appendChild(element);
+    return element;
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+    Object.defineProperty(document, 'visibilityState', {
+        value: state,
+        configurable: true,
+    });
+    document.dispatchEvent(new Event('visibilitychange'));
+}
+
+// MutationObserver callbacks run as microtasks
+const flushMutations = () => Promise.resolve();
+
+let onImpression: ReturnType<
+    typeof vi.fn<(name: string, element: Element) => void>
+>;
+
+function start(options: { threshold?: number; minDwellTime?: number } = {}) {
+    const tracker = createImpressionTracker({
+        threshold: 0.5,
+        minDwellTime: 1000,
+        onImpression,
+        log: vi.fn(),
+        ...options,
+    });
+    tracker.start();
+    return tracker;
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+    FakeIntersectionObserver.instances = [];
+    onImpression = vi.fn();
+});
+
+afterEach(() => {
+    document.body.innerHTML = '';
+    // @ts-expect-error removing the test stub
+    delete document.visibilityState;
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// createImpressionTracker()
+// ---------------------------------------------------------------------------
+
+describe('createImpressionTracker()', () => {
+    it('reports an element after it stayed visible for the dwell time', () => {
+        const banner = addElement('promo_banner');
+        const tracker = start();
+
+        intersect(banner, 0.6);
+        vi.advanceTimersByTime(999);
+        expect(onImpression).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(onImpression).toHaveBeenCalledWith('promo_banner', banner);
+        tracker.stop();
+    });
+
+    it('ignores elements below the threshold', () => {
+        const banner = addElement('promo_banner');
+        const tracker = start();
+
+        intersect(banner, 0.4);
+        vi.advanceTimersByTime(5000);
+
+        expect(onImpression).not.toHaveBeenCalled();
+        tracker.stop();
+    });
+
+    it('resets the dwell time when an element leaves the viewport', () => {
+        const banner = addElement('promo_banner');
+        const tracker = start();
+
+        intersect(banner, 1);
+        vi.advanceTimersByTime(600);
+        intersect(banner, 0);
+        intersect(banner, 1);
+        vi.advanceTimersByTime(600);
+
+        expect(onImpression).not.toHaveBeenCalled();
+        tracker.stop();
+    });
+
+    it('reports each element once', () => {
+        const banner = addElement('promo_banner');
+        const tracker = start({ minDwellTime: 0 });
+
+        intersect(banner, 1);
+        vi.runAllTimers();
+        intersect(banner, 0);
+        intersect(banner, 1);
+        vi.runAllTimers();
+
+        expect(onImpression).toHaveBeenCalledTimes(1);
+        expect(observer().observed.has(banner)).toBe(false);
+        tracker.stop();
+    });
+
+    it('reports elements again after reset()', () => {
+        const banner = addElement('promo_banner');
+        const tracker = start({ minDwellTime: 0 });
+        intersect(banner, 1);
+        vi.runAllTimers();
+
+        tracker.reset();
+        intersect(banner, 1);
+        vi.runAllTimers();
+
+        expect(onImpression).toHaveBeenCalledTimes(2);
+        tracker.stop();
+    });
+
+    it('observes elements inserted later', async () => {
+        const tracker = start();
+
+        const wrapper = document.createElement('section');
+        wrapper.innerHTML = '<div data-lwsa-impression="pricing_card"></div>';
+        document.body.appendChild(wrapper);
+        await flushMutations();
+
+        expect(observer().observed.has(wrapper.firstElementChild!)).toBe(true);
+        tracker.stop();
+    });
+
+    it('observes elements that get the attribute later', async () => {
+        const element = document.createElement('div');
+        document.body.appendChild(element);
+        const tracker = start();
+
+        element.setAttribute('data-lwsa-impression', 'pricing_card');
+        await flushMutations();
+
+        expect(observer().observed.has(element)).toBe(true);
+        tracker.stop();
+    });
+
+    it('stops observing removed elements', async () => {
+        const banner = addElement('promo_banner');
+        const tracker = start();
+        intersect(banner, 1);
+
+        banner.remove();
+        await flushMutations();
+        vi.runAllTimers();
+
+        expect(observer().observed.has(banner)).toBe(false);
+        expect(onImpression).not.toHaveBeenCalled();
+        tracker.stop();
+    });
+
+    it('only counts dwell time while the page is visible', () => {
+        const banner = addElement('promo_banner');
+        const tracker = start();
+
+        intersect(banner, 1);
+        vi.advanceTimersByTime(500);
+        setVisibility('hidden');
+        vi.advanceTimersByTime(5000);
+        expect(onImpression).not.toHaveBeenCalled();
+
+        setVisibility('visible');
+        vi.advanceTimersByTime(1000);
+        expect(onImpression).toHaveBeenCalledTimes(1);
+        tracker.stop();
+    });
+
+    it('reports visible elements once a hidden page is shown', () => {
+        setVisibility('hidden');
+        const banner = addElement('promo_banner');
+        const tracker = start();
+
+        intersect(banner, 1);
+        vi.advanceTimersByTime(5000);
+        expect(onImpression).not.toHaveBeenCalled();
+
+        setVisibility('visible');
+        vi.advanceTimersByTime(1000);
+        expect(onImpression).toHaveBeenCalledWith('promo_banner', banner);
+        tracker.stop();
+    });
+
+    it('disconnects observers and cancels pending impressions on stop()', async () => {
+        const banner = addElement('promo_banner');
+        const tracker = start();
+        intersect(banner, 1);
+        const intersection = observer();
+
+        tracker.stop();
+        vi.runAllTimers();
+        addElement('pricing_card');
+        await flushMutations();
+
+        expect(onImpression).not.toHaveBeenCalled();
+        expect(intersection.observed.size).toBe(0);
+    });
+
+    it('does nothing without IntersectionObserver', () => {
+        vi.stubGlobal('IntersectionObserver', undefined);
+        addElement('promo_banner');
+
+        expect(() => start().stop()).not.toThrow();
+    });
+});
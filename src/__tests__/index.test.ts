@@ -5,6 +5,28 @@ import {
     trackPageView,
     isReady,
     getInstance,
+    setConsent,
+    createTracker,
+    identify,
+    reset,
+    register,
+    registerOnce,
+    unregister,
+    showDebugPanel,
+    getSentEvents,
+    clearSentEvents,
+    createCampaignPlugin,
+    createCommercePlugin,
+    createEngagementPlugin,
+    createErrorTrackingPlugin,
+    createFormTrackingPlugin,
+    createImpressionTrackingPlugin,
+    createLinkTrackingPlugin,
+    createWebVitalsPlugin,
+    sha256,
+    type CommercePlugin,
+    type ConsentAdapter,
+    type ConsentState,
     type LwsAnalyticsConfig,
     type LwsAnalyticsInstance,
 } from '../index';
@@ -120,6 +142,78 @@ describe('init()', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// Endpoint configuration
+// ---------------------------------------------------------------------------
+
+describe('endpoint', () => {
+    it('sends to a custom absolute endpoint', () => {
+        initAndReturn({ endpoint: 'https://collector.example.com/track' });
+
+        expect(fetch).toHaveBeenCalledWith(
+            'https://collector.example.com/track',
+            expect.any(Object),
+        );
+    });
+
+    it('resolves a first-party proxy path against the current origin', () => {
+        initAndReturn({ endpoint: '/lwsa/track' });
+
+        expect(fetch).toHaveBeenCalledWith(
+            window.location.origin + '/lwsa/track',
+            expect.any(Object),
+        );
+    });
+
+    it('falls back to the default endpoint for an invalid URL', () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        initAndReturn({ endpoint: 'not a url', debug: true });
+
+        expect(warnSpy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            'Invalid endpoint URL:',
+            'not a url',
+        );
+        expect(fetch).toHaveBeenCalledWith(
+            'https://dashboard.lws-analytics.eu/api/track',
+            expect.any(Object),
+        );
+    });
+
+    it('rejects non-http(s) endpoints', () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        initAndReturn({ endpoint: 'ftp://example.com/track', debug: true });
+
+        expect(warnSpy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            'Endpoint must use http(s), got:',
+            'ftp://example.com/track',
+        );
+        expect(fetch).toHaveBeenCalledWith(
+            'https://dashboard.lws-analytics.eu/api/track',
+            expect.any(Object),
+        );
+    });
+
+    it('logs the resolved endpoint in debug mode', () => {
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        initAndReturn({
+            endpoint: 'https://collector.example.com/track',
+            trackPageViewOnInit: false,
+            debug: true,
+        });
+
+        expect(logSpy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            'Using endpoint:',
+            'https://collector.example.com/track',
+        );
+    });
+});
+
 // ---------------------------------------------------------------------------
 // trackEvent()
 // ---------------------------------------------------------------------------
@@ -164,6 +258,141 @@ describe('trackEvent()', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// Event properties
+// ---------------------------------------------------------------------------
+
+describe('event properties', () => {
+    function lastBody() {
+        const calls = (fetch as ReturnType<typeof vi.fn>).mock.calls;
+        return JSON.parse(calls[calls.length - 1][1].body);
+    }
+
+    it('attaches properties to custom events', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        trackEvent('purchase', { plan: 'pro', value: 49.5, trial: false });
+
+        expect(lastBody().props).toEqual({
+            plan: 'pro',
+            value: 49.5,
+            trial: false,
+        });
+    });
+
+    it('omits props when none are given', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        trackEvent('signup');
+
+        expect(lastBody()).not.toHaveProperty('props');
+    });
+
+    it('drops non-serializable values', () => {
+        initAndReturn({ trackPageViewOnInit: false, debug: true });
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        trackEvent('test', {
+            ok: 'yes',
+            nested: { a: 1 },
+            fn: () => {},
+            nan: NaN,
+        } as never);
+
+        expect(lastBody().props).toEqual({ ok: 'yes' });
+    });
+
+    it('truncates long string values', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        trackEvent('test', { text: 'x'.repeat(500) });
+
+        expect(lastBody().props.text).toHaveLength(255);
+    });
+
+    it('limits the number of properties', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        const props: Record<string, number> = {};
+        for (let i = 0; i < 40; i++) {
+            props['key_' + i] = i;
+        }
+        trackEvent('test', props);
+
+        expect(Object.keys(lastBody().props)).toHaveLength(25);
+    });
+
+    it('drops properties that exceed the size limit', () => {
+        initAndReturn({ trackPageViewOnInit: false, debug: true });
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const props: Record<string, string> = {};
+        for (let i = 0; i < 20; i++) {
+            props['key_' + i] = 'x'.repeat(200);
+        }
+        trackEvent('test', props);
+
+        expect(lastBody()).not.toHaveProperty('props');
+        expect(warnSpy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            expect.stringContaining('exceed'),
+        );
+    });
+
+    it('measures the size limit in UTF-8 bytes', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        // 900 characters, but 2700 bytes
+        trackEvent('test', {
+            a: '€'.repeat(255),
+            b: '€'.repeat(255),
+            c: '€'.repeat(255),
+            d: '€'.repeat(135),
+        });
+
+        expect(lastBody()).not.toHaveProperty('props');
+    });
+
+    it('reads props from data-lwsa-prop-* attributes on click', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        const button = document.createElement('button');
+        button.setAttribute('data-lwsa-event', 'cta_click');
+        button.setAttribute('data-lwsa-prop-variant', 'blue');
+        button.setAttribute('data-lwsa-prop-position', 'header');
+        document.body.appendChild(button);
+
+        button.click();
+
+        expect(lastBody().props).toEqual({
+            variant: 'blue',
+            position: 'header',
+        });
+
+        document.body.removeChild(button);
+    });
+
+    it('type-checks props against a declared event map', () => {
+        type AppEvents = {
+            signup: { plan: 'free' | 'pro' };
+            logout: undefined;
+        };
+        const analytics = init<AppEvents>({
+            ...defaultConfig,
+            trackPageViewOnInit: false,
+        });
+
+        analytics.trackEvent('signup', { plan: 'pro' });
+        analytics.trackEvent('logout');
+        // @ts-expect-error unknown event name
+        analytics.trackEvent('unknown');
+        // @ts-expect-error invalid property value
+        analytics.trackEvent('signup', { plan: 'enterprise' });
+
+        expect(fetch).toHaveBeenCalledTimes(4);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // trackPageView()
 // ---------------------------------------------------------------------------
@@ -529,3 +758,2423 @@ describe('edge cases', () => {
         });
     });
 });
+
+// ---------------------------------------------------------------------------
+// Offline queue
+// ---------------------------------------------------------------------------
+
+describe('offline queue', () => {
+    function queuedPayloads() {
+        return JSON.parse(
+            localStorage.getItem('lws_analytics_queue:test-site') ?? '[]',
+        );
+    }
+
+    it('queues payloads that fail to send', async () => {
+        (fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+            new Error('Network error'),
+        );
+
+        initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('offline_event');
+
+        await vi.waitFor(() => {
+            expect(queuedPayloads()).toHaveLength(1);
+        });
+        expect(queuedPayloads()[0].payload.name).toBe('offline_event');
+    });
+
+    it('queues payloads without sending while the browser is offline', () => {
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+        initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('offline_event');
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(queuedPayloads()).toHaveLength(1);
+    });
+
+    it('queues payloads when the server responds with an error', async () => {
+        (fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+            new Response(null, { status: 503 }),
+        );
+
+        initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('server_error');
+
+        await vi.waitFor(() => {
+            expect(queuedPayloads()).toHaveLength(1);
+        });
+    });
+
+    it('replays queued payloads once when coming back online', async () => {
+        const onLine = vi.spyOn(navigator, 'onLine', 'get');
+        onLine.mockReturnValue(false);
+
+        initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('first');
+        trackEvent('second');
+        expect(fetch).not.toHaveBeenCalled();
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+        window.dispatchEvent(new Event('online'));
+
+        await vi.waitFor(() => {
+            expect(queuedPayloads()).toHaveLength(0);
+        });
+
+        const names = (fetch as ReturnType<typeof vi.fn>).mock.calls.map(
+            (call) => JSON.parse(call[1].body).name,
+        );
+        expect(names).toEqual(['first', 'second']);
+    });
+
+    it('keeps queued payloads on destroy and flushes them on the next init', async () => {
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('queued');
+        analytics.destroy();
+
+        expect(queuedPayloads()).toHaveLength(1);
+
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+        initAndReturn({ trackPageViewOnInit: false });
+
+        await vi.waitFor(() => {
+            expect(queuedPayloads()).toHaveLength(0);
+        });
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(
+            JSON.parse(
+                (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+            ).name,
+        ).toBe('queued');
+    });
+
+    it('drops failed payloads when queueOffline is disabled', async () => {
+        (fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+            new Error('Network error'),
+        );
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        initAndReturn({
+            trackPageViewOnInit: false,
+            queueOffline: false,
+            debug: true,
+        });
+        trackEvent('lost');
+
+        await vi.waitFor(() => {
+            expect(warnSpy).toHaveBeenCalledWith(
+                '[LWS Analytics]',
+                'Failed to send payload:',
+                expect.any(Error),
+            );
+        });
+        expect(queuedPayloads()).toHaveLength(0);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Batching
+// ---------------------------------------------------------------------------
+
+describe('batching', () => {
+    afterEach(() => {
+        // @ts-expect-error removing the test stub
+        delete navigator.sendBeacon;
+    });
+
+    function stubBeacon(result: boolean) {
+        const sendBeacon = vi.fn().mockReturnValue(result);
+        Object.defineProperty(navigator, 'sendBeacon', {
+            value: sendBeacon,
+            configurable: true,
+        });
+        return sendBeacon;
+    }
+
+    it('sends batched payloads as an array', () => {
+        vi.useFakeTimers();
+        initAndReturn({ trackPageViewOnInit: false, batchEvents: true });
+
+        trackEvent('first');
+        trackEvent('second');
+        expect(fetch).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(5000);
+        vi.useRealTimers();
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+        const body = JSON.parse(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+        );
+        expect(body.map((p: { name: string }) => p.name)).toEqual([
+            'first',
+            'second',
+        ]);
+    });
+
+    it('sends a single batched payload in the single-event format', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            batchEvents: true,
+            batchSize: 1,
+        });
+
+        trackEvent('only');
+
+        const body = JSON.parse(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+        );
+        expect(body.name).toBe('only');
+    });
+
+    it('flushes with sendBeacon on pagehide', () => {
+        const sendBeacon = stubBeacon(true);
+        initAndReturn({ trackPageViewOnInit: false, batchEvents: true });
+
+        trackEvent('first');
+        trackEvent('second');
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(sendBeacon).toHaveBeenCalledWith(
+            'https://dashboard.lws-analytics.eu/api/track',
+            expect.any(Blob),
+        );
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('falls back to keepalive fetch when sendBeacon is unavailable', () => {
+        initAndReturn({ trackPageViewOnInit: false, batchEvents: true });
+
+        trackEvent('first');
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(fetch).toHaveBeenCalledWith(
+            'https://dashboard.lws-analytics.eu/api/track',
+            expect.objectContaining({ keepalive: true }),
+        );
+    });
+
+    it('falls back to keepalive fetch when sendBeacon refuses the payload', () => {
+        const sendBeacon = stubBeacon(false);
+        initAndReturn({ trackPageViewOnInit: false, batchEvents: true });
+
+        trackEvent('first');
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(sendBeacon).toHaveBeenCalledOnce();
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues each payload of a failed batch', async () => {
+        (fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+            new Error('Network error'),
+        );
+        initAndReturn({ trackPageViewOnInit: false, batchEvents: true });
+
+        trackEvent('first');
+        trackEvent('second');
+        getInstance()?.destroy();
+
+        await vi.waitFor(() => {
+            const queued = JSON.parse(
+                localStorage.getItem('lws_analytics_queue:test-site') ?? '[]',
+            );
+            expect(queued).toHaveLength(2);
+        });
+    });
+
+    it('sends pending payloads on destroy', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            batchEvents: true,
+        });
+
+        trackEvent('pending');
+        analytics.destroy();
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Consent
+// ---------------------------------------------------------------------------
+
+describe('consent', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('buffers events until consent is granted', () => {
+        initAndReturn({ requireConsent: true });
+        trackEvent('before_consent');
+
+        expect(fetch).not.toHaveBeenCalled();
+
+        setConsent({ analytics: true });
+
+        expect(sentBodies().map((body) => body.name)).toEqual([
+            'Page view',
+            'before_consent',
+        ]);
+    });
+
+    it('does not touch storage before consent is granted', () => {
+        const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+        initAndReturn({ requireConsent: true });
+        trackEvent('before_consent');
+
+        expect(setItem).not.toHaveBeenCalled();
+        expect(localStorage.getItem('lws_analytics_client_id')).toBeNull();
+    });
+
+    it('attaches the client ID to buffered events once consent is granted', () => {
+        initAndReturn({ requireConsent: true, trackPageViewOnInit: false });
+        trackEvent('before_consent');
+
+        setConsent({ analytics: true });
+
+        const clientId = localStorage.getItem('lws_analytics_client_id');
+        expect(clientId).toBeTruthy();
+        expect(sentBodies()[0].client_id).toBe(clientId);
+    });
+
+    it('discards the buffer when consent is denied', () => {
+        initAndReturn({ requireConsent: true });
+        trackEvent('before_consent');
+
+        setConsent({ analytics: false });
+        trackEvent('after_denial');
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('discards batched payloads when consent is denied', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            batchEvents: true,
+        });
+        trackEvent('pending');
+
+        setConsent({ analytics: false });
+        analytics.destroy();
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('discards paused payloads when consent is denied', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        analytics.setPaused(true);
+        trackEvent('held');
+
+        setConsent({ analytics: false });
+        analytics.setPaused(false);
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('wipes the stored client ID when consent is withdrawn', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('tracked');
+        expect(localStorage.getItem('lws_analytics_client_id')).toBeTruthy();
+
+        setConsent({ analytics: false });
+        trackEvent('not_tracked');
+
+        expect(localStorage.getItem('lws_analytics_client_id')).toBeNull();
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('receives consent decisions from a consent adapter', () => {
+        let listener: (consent: ConsentState) => void = () => {};
+        const unsubscribe = vi.fn();
+        const adapter: ConsentAdapter = {
+            subscribe: (callback) => {
+                listener = callback;
+                return unsubscribe;
+            },
+        };
+
+        const analytics = initAndReturn({
+            requireConsent: true,
+            consentAdapter: adapter,
+        });
+        expect(fetch).not.toHaveBeenCalled();
+
+        listener({ analytics: true });
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        analytics.destroy();
+        expect(unsubscribe).toHaveBeenCalledOnce();
+    });
+
+    it('warns when setConsent is called before init', () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        setConsent({ analytics: true });
+
+        expect(warnSpy).toHaveBeenCalledWith(
+            expect.stringContaining('Not initialized'),
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Anonymous mode
+// ---------------------------------------------------------------------------
+
+describe('anonymous mode', () => {
+    it('sends events without a client ID', () => {
+        initAndReturn({ anonymous: true, trackPageViewOnInit: false });
+        trackEvent('anonymous_event');
+
+        const body = JSON.parse(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+        );
+        expect(body.client_id).toBeNull();
+    });
+
+    it('never touches storage', async () => {
+        const getItem = vi.spyOn(Storage.prototype, 'getItem');
+        const setItem = vi.spyOn(Storage.prototype, 'setItem');
+        (fetch as ReturnType<typeof vi.fn>).mockRejectedValue(
+            new Error('Network error'),
+        );
+
+        initAndReturn({ anonymous: true });
+        trackEvent('anonymous_event');
+        await Promise.resolve();
+
+        expect(getItem).not.toHaveBeenCalled();
+        expect(setItem).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Privacy signals
+// ---------------------------------------------------------------------------
+
+describe('privacy signals', () => {
+    function stubNavigator(key: string, value: unknown) {
+        Object.defineProperty(navigator, key, { value, configurable: true });
+    }
+
+    beforeEach(() => {
+        stubNavigator('doNotTrack', '1');
+    });
+
+    afterEach(() => {
+        const nav = navigator as unknown as Record<string, unknown>;
+        delete nav.doNotTrack;
+        delete nav.globalPrivacyControl;
+    });
+
+    it('disables tracking when Do Not Track is set and the policy is disable', () => {
+        initAndReturn({ respectDnt: 'disable' });
+        trackEvent('blocked');
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(localStorage.getItem('lws_analytics_client_id')).toBeNull();
+    });
+
+    it('tracks without a client ID when the policy is anonymous', () => {
+        initAndReturn({ respectDnt: 'anonymous', trackPageViewOnInit: false });
+        trackEvent('anonymous_event');
+
+        const body = JSON.parse(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+        );
+        expect(body.client_id).toBeNull();
+        expect(localStorage.getItem('lws_analytics_client_id')).toBeNull();
+    });
+
+    it('tracks as usual when the policy is ignore', () => {
+        initAndReturn({ respectDnt: 'ignore', trackPageViewOnInit: false });
+        trackEvent('tracked');
+
+        const body = JSON.parse(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+        );
+        expect(body.client_id).toBeTruthy();
+    });
+
+    it('honors Global Privacy Control', () => {
+        stubNavigator('doNotTrack', '0');
+        stubNavigator('globalPrivacyControl', true);
+
+        initAndReturn({ respectGpc: 'disable' });
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('logs the decision in debug mode', () => {
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        initAndReturn({ respectDnt: 'disable', debug: true });
+
+        expect(logSpy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            'Privacy signals detected:',
+            { doNotTrack: true, globalPrivacyControl: false },
+            'applying policy:',
+            'disable',
+        );
+    });
+
+    it('tracks again after re-init without the signal', () => {
+        initAndReturn({ respectDnt: 'disable' });
+        stubNavigator('doNotTrack', '0');
+
+        initAndReturn({ respectDnt: 'disable' });
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+describe('sessions', () => {
+    beforeEach(() => {
+        sessionStorage.clear();
+    });
+
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('does not attach sessions by default', () => {
+        initAndReturn();
+
+        expect(sentBodies()[0]).not.toHaveProperty('session_id');
+    });
+
+    it('emits session_start before the first page view', () => {
+        initAndReturn({ trackSessions: true });
+
+        const [start, pageView] = sentBodies();
+        expect(start.type).toBe('session_start');
+        expect(pageView.type).toBe('page_view');
+        expect(pageView.session_id).toBe(start.session_id);
+        expect(pageView.session_page_views).toBe(1);
+    });
+
+    it('counts page views per session', () => {
+        initAndReturn({ trackSessions: true });
+        trackPageView();
+        trackEvent('click');
+
+        const bodies = sentBodies();
+        expect(bodies[2].session_page_views).toBe(2);
+        expect(bodies[3].session_page_views).toBe(2);
+    });
+
+    it('emits session_end and a new session after the timeout', () => {
+        vi.useFakeTimers();
+        initAndReturn({ trackSessions: true, sessionTimeout: 1000 });
+        const firstSession = sentBodies()[0].session_id;
+
+        vi.advanceTimersByTime(1500);
+        trackEvent('late_click');
+        vi.useRealTimers();
+
+        const types = sentBodies().map((body) => body.type);
+        expect(types).toEqual([
+            'session_start',
+            'page_view',
+            'session_end',
+            'session_start',
+            'custom',
+        ]);
+        const end = sentBodies()[2];
+        expect(end.session_id).toBe(firstSession);
+        expect(end.props).toEqual({ duration: 0, page_views: 1 });
+        expect(sentBodies()[4].session_id).not.toBe(firstSession);
+    });
+
+    it('keeps the session across re-initialization', () => {
+        initAndReturn({ trackSessions: true });
+        const sessionId = sentBodies()[0].session_id;
+        (fetch as ReturnType<typeof vi.fn>).mockClear();
+
+        initAndReturn({ trackSessions: true });
+
+        expect(sentBodies()).toHaveLength(1);
+        expect(sentBodies()[0].session_id).toBe(sessionId);
+    });
+
+    it('does not persist the session in anonymous mode', () => {
+        initAndReturn({ trackSessions: true, anonymous: true });
+
+        expect(sentBodies()[0].session_id).toBeTruthy();
+        expect(
+            sessionStorage.getItem('lws_analytics_session:test-site'),
+        ).toBeNull();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Engagement
+// ---------------------------------------------------------------------------
+
+describe('engagement', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('does not emit page_leave without the plugin', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('emits page_leave on pagehide', () => {
+        vi.useFakeTimers();
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createEngagementPlugin()],
+        });
+
+        vi.advanceTimersByTime(2000);
+        window.dispatchEvent(new Event('pagehide'));
+        vi.useRealTimers();
+
+        const [leave] = sentBodies();
+        expect(leave.type).toBe('page_leave');
+        expect(leave.props).toEqual({
+            engagement_time_ms: 2000,
+            scroll_depth: 0,
+        });
+    });
+
+    it('emits page_leave for the previous route on SPA navigation', () => {
+        history.replaceState({}, '', '/first');
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createEngagementPlugin()],
+        });
+
+        history.pushState({}, '', '/second');
+
+        const [leave, pageView] = sentBodies();
+        expect(leave.type).toBe('page_leave');
+        expect(leave.path).toBe('/first');
+        expect(pageView.type).toBe('page_view');
+        expect(pageView.path).toBe('/second');
+
+        history.replaceState({}, '', '/');
+    });
+
+    it('stops measuring after destroy', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createEngagementPlugin()],
+        });
+        analytics.destroy();
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Web vitals
+// ---------------------------------------------------------------------------
+
+describe('web vitals', () => {
+    beforeEach(() => {
+        vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+            { responseStart: 95 } as PerformanceNavigationTiming,
+        ]);
+    });
+
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('is disabled without the plugin', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('sends a web_vitals event when the page is hidden', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createWebVitalsPlugin()],
+        });
+
+        window.dispatchEvent(new Event('pagehide'));
+
+        const [vitals] = sentBodies();
+        expect(vitals.type).toBe('web_vitals');
+        expect(vitals.props).toEqual({ ttfb: 95 });
+        expect(vitals.path).toBe(window.location.pathname);
+    });
+
+    it('reports for the previous route on SPA navigation', () => {
+        history.replaceState({}, '', '/landing');
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createWebVitalsPlugin()],
+        });
+
+        history.pushState({}, '', '/next');
+
+        const [vitals, pageView] = sentBodies();
+        expect(vitals.type).toBe('web_vitals');
+        expect(vitals.path).toBe('/landing');
+        expect(pageView.type).toBe('page_view');
+
+        history.replaceState({}, '', '/');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Error tracking
+// ---------------------------------------------------------------------------
+
+describe('error tracking', () => {
+    function lastBody() {
+        const calls = (fetch as ReturnType<typeof vi.fn>).mock.calls;
+        return JSON.parse(calls[calls.length - 1][1].body);
+    }
+
+    it('does not capture uncaught errors without the plugin', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('sends uncaught errors as error events', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createErrorTrackingPlugin()],
+        });
+
+        window.dispatchEvent(
+            new ErrorEvent('error', {
+                message: 'boom',
+                error: new TypeError('boom'),
+                filename: 'app.js',
+                lineno: 10,
+            }),
+        );
+
+        const body = lastBody();
+        expect(body.type).toBe('error');
+        expect(body.name).toBe('boom');
+        expect(body.error).toMatchObject({
+            source: 'error',
+            name: 'TypeError',
+            filename: 'app.js',
+            line: 10,
+        });
+        expect(body).toHaveProperty('client_id');
+    });
+
+    it('reports manual errors with context through trackError()', () => {
+        const errors = createErrorTrackingPlugin({ captureUncaught: false });
+        initAndReturn({ trackPageViewOnInit: false, plugins: [errors] });
+
+        window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+        errors.trackError(new Error('payment failed'), { step: 'checkout' });
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        const body = lastBody();
+        expect(body.type).toBe('error');
+        expect(body.error.source).toBe('manual');
+        expect(body.props).toEqual({ step: 'checkout' });
+    });
+
+    it('warns when trackError is called before the plugin is registered', () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        createErrorTrackingPlugin().trackError(new Error('early'));
+
+        expect(warnSpy).toHaveBeenCalledWith(
+            expect.stringContaining('not registered'),
+        );
+    });
+
+    it('stops capturing after destroy', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createErrorTrackingPlugin()],
+        });
+        analytics.destroy();
+
+        window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Link tracking
+// ---------------------------------------------------------------------------
+
+describe('link tracking', () => {
+    function clickLink(href: string) {
+        const anchor = document.createElement('a');
+        anchor.href = href;
+        // jsdom does not implement navigation
+        anchor.addEventListener('click', (event) => event.preventDefault());
+        document.body.appendChild(anchor);
+        anchor.click();
+        document.body.removeChild(anchor);
+    }
+
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('does not track links without the plugin', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        clickLink('https://example.com/');
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('sends typed events with the target URL', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createLinkTrackingPlugin()],
+        });
+
+        clickLink('https://example.com/');
+        clickLink('/files/brochure.pdf');
+        clickLink('mailto:sales@example.com');
+        clickLink('tel:+31612345678');
+
+        expect(
+            sentBodies().map((body) => [body.type, body.name, body.target_url]),
+        ).toEqual([
+            ['outbound_link', 'Outbound link', 'https://example.com/'],
+            [
+                'download',
+                'Download',
+                window.location.origin + '/files/brochure.pdf',
+            ],
+            ['mailto', 'Email link', 'mailto:sales@example.com'],
+            ['tel', 'Phone link', 'tel:+31612345678'],
+        ]);
+    });
+
+    it('only tracks enabled link types', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [
+                createLinkTrackingPlugin({ outbound: false, contact: false }),
+            ],
+        });
+
+        clickLink('https://example.com/');
+        clickLink('/files/brochure.pdf');
+
+        expect(sentBodies().map((body) => body.type)).toEqual(['download']);
+    });
+
+    it('applies ignoreLinks', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createLinkTrackingPlugin({ ignore: ['example.com'] })],
+        });
+
+        clickLink('https://example.com/');
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// createTracker()
+// ---------------------------------------------------------------------------
+
+describe('createTracker()', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    function endpoints() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map(
+            (call) => call[0],
+        );
+    }
+
+    beforeEach(() => {
+        history.replaceState(null, '', '/');
+    });
+
+    it('runs independent trackers with their own config', () => {
+        const first = createTracker({
+            siteId: 'site-a',
+            endpoint: 'https://a.example.com/track',
+            trackPageViewOnInit: false,
+        });
+        const second = createTracker({
+            siteId: 'site-b',
+            endpoint: 'https://b.example.com/track',
+            trackPageViewOnInit: false,
+        });
+
+        first.trackEvent('signup');
+        second.trackEvent('checkout');
+
+        expect(endpoints()).toEqual([
+            'https://a.example.com/track',
+            'https://b.example.com/track',
+        ]);
+        expect(
+            sentBodies().map((body) => [body.identifier, body.name]),
+        ).toEqual([
+            ['site-a', 'signup'],
+            ['site-b', 'checkout'],
+        ]);
+
+        first.destroy();
+        second.destroy();
+    });
+
+    it('does not affect the default tracker', () => {
+        const tracker = createTracker({
+            siteId: 'site-b',
+            trackPageViewOnInit: false,
+        });
+
+        expect(isReady()).toBe(false);
+        expect(getInstance()).toBeNull();
+
+        initAndReturn({ trackPageViewOnInit: false });
+        tracker.destroy();
+
+        expect(isReady()).toBe(true);
+        trackEvent('signup');
+        expect(sentBodies()[0].identifier).toBe('test-site');
+    });
+
+    it('keeps SPA tracking working when another tracker is destroyed', () => {
+        const first = createTracker({
+            siteId: 'site-a',
+            trackPageViewOnInit: false,
+        });
+        const second = createTracker({
+            siteId: 'site-b',
+            trackPageViewOnInit: false,
+        });
+
+        first.destroy();
+        history.pushState({}, '', '/next');
+
+        expect(sentBodies().map((body) => body.identifier)).toEqual(['site-b']);
+        second.destroy();
+    });
+
+    it('keeps offline queues separate per site', async () => {
+        vi.stubGlobal(
+            'fetch',
+            vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+        );
+        const tracker = createTracker({
+            siteId: 'site-b',
+            trackPageViewOnInit: false,
+        });
+
+        tracker.trackEvent('signup');
+        await vi.waitFor(() =>
+            expect(
+                localStorage.getItem('lws_analytics_queue:site-b'),
+            ).not.toBeNull(),
+        );
+        expect(
+            localStorage.getItem('lws_analytics_queue:test-site'),
+        ).toBeNull();
+        tracker.destroy();
+    });
+
+    it('drops events sent after destroy()', () => {
+        const tracker = createTracker({
+            siteId: 'site-b',
+            trackPageViewOnInit: false,
+        });
+
+        tracker.destroy();
+        tracker.trackEvent('signup');
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Plugins
+// ---------------------------------------------------------------------------
+
+describe('plugins', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('enriches payloads with plugins from the config', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [
+                {
+                    name: 'release',
+                    beforeSend: (payload) => {
+                        payload.release = '1.2.3';
+                    },
+                },
+            ],
+        });
+
+        trackEvent('signup');
+
+        expect(sentBodies()[0]).toMatchObject({
+            name: 'signup',
+            release: '1.2.3',
+        });
+    });
+
+    it('drops payloads when beforeSend returns null', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        analytics.use({
+            name: 'drop-internal',
+            beforeSend: (payload) =>
+                payload.name === 'internal' ? null : payload,
+        });
+
+        trackEvent('internal');
+        trackEvent('signup');
+
+        expect(sentBodies().map((body) => body.name)).toEqual(['signup']);
+    });
+
+    it('gives plugins a context to track events', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        analytics.use({
+            name: 'ready',
+            setup: (context) => {
+                context.trackEvent('plugin_ready', {
+                    site: context.config.siteId,
+                });
+            },
+        });
+
+        expect(sentBodies()[0]).toMatchObject({
+            name: 'plugin_ready',
+            props: { site: 'test-site' },
+        });
+    });
+
+    it('sanitizes page fields tracked by plugins', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            excludedQueryParams: ['token'],
+        });
+        analytics.use({
+            name: 'feature',
+            setup: (context) => {
+                context.track(
+                    'feature',
+                    'feature_used',
+                    { plan: 'pro' },
+                    { url: 'http://localhost:3000/?token=secret&tab=1' },
+                );
+            },
+        });
+
+        expect(sentBodies()[0]).toMatchObject({
+            type: 'feature',
+            name: 'feature_used',
+            props: { plan: 'pro' },
+            url: 'http://localhost:3000/?tab=1',
+        });
+    });
+
+    it('notifies plugins of consent changes and resets', () => {
+        const calls: string[] = [];
+        const analytics = initAndReturn({ requireConsent: true });
+        analytics.use({
+            name: 'lifecycle',
+            consentChange: (granted) => calls.push(`consent ${granted}`),
+            reset: () => calls.push('reset'),
+        });
+
+        setConsent({ analytics: true });
+        reset();
+        setConsent({ analytics: false });
+
+        expect(calls).toEqual(['consent true', 'reset', 'consent false']);
+    });
+
+    it('calls afterSend once payloads are sent', async () => {
+        const afterSend = vi.fn();
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [{ name: 'audit', afterSend }],
+        });
+
+        trackEvent('signup');
+        expect(afterSend).not.toHaveBeenCalled();
+
+        await vi.waitFor(() =>
+            expect(afterSend).toHaveBeenCalledWith(
+                expect.objectContaining({ name: 'signup' }),
+            ),
+        );
+    });
+
+    it('does not call afterSend when sending fails', async () => {
+        (fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+            new Error('Network error'),
+        );
+        const afterSend = vi.fn();
+        const inspector = vi.fn();
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [{ name: 'audit', afterSend }],
+        });
+        analytics.inspect(inspector);
+
+        trackEvent('signup');
+
+        await vi.waitFor(() =>
+            expect(inspector).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'queued' }),
+            ),
+        );
+        expect(afterSend).not.toHaveBeenCalled();
+    });
+
+    it('calls afterSend for payloads replayed from the offline queue', async () => {
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        const offline = initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('queued');
+        offline.destroy();
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+        const afterSend = vi.fn();
+
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [{ name: 'audit', afterSend }],
+        });
+
+        await vi.waitFor(() =>
+            expect(afterSend).toHaveBeenCalledWith(
+                expect.objectContaining({ name: 'queued' }),
+            ),
+        );
+    });
+
+    it('does not run beforeSend before consent is given', () => {
+        const beforeSend = vi.fn();
+        initAndReturn({
+            trackPageViewOnInit: false,
+            requireConsent: true,
+            plugins: [{ name: 'test', beforeSend }],
+        });
+
+        trackEvent('signup');
+        expect(beforeSend).not.toHaveBeenCalled();
+
+        setConsent({ analytics: true });
+        expect(beforeSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps tracking when a plugin throws', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [
+                {
+                    name: 'broken',
+                    beforeSend: () => {
+                        throw new Error('boom');
+                    },
+                },
+            ],
+        });
+
+        trackEvent('signup');
+
+        expect(sentBodies()[0].name).toBe('signup');
+    });
+
+    it('tears plugins down on destroy()', () => {
+        const teardown = vi.fn();
+        const analytics = initAndReturn({
+            plugins: [{ name: 'test', teardown }],
+        });
+
+        analytics.destroy();
+
+        expect(teardown).toHaveBeenCalledTimes(1);
+    });
+
+    it('removes the built-in click tracking plugin on destroy()', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        const button = document.createElement('button');
+        button.setAttribute('data-lwsa-event', 'cta');
+        document.body.appendChild(button);
+
+        analytics.destroy();
+        button.click();
+
+        expect(fetch).not.toHaveBeenCalled();
+        document.body.removeChild(button);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// URL sanitization
+// ---------------------------------------------------------------------------
+
+describe('URL sanitization', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    beforeEach(() => {
+        history.replaceState(null, '', '/');
+    });
+
+    it('sanitizes url, path and referer consistently', () => {
+        history.replaceState(
+            null,
+            '',
+            '/users/42?token=secret&email=jane%40example.com&tab=1#top',
+        );
+        vi.spyOn(document, 'referrer', 'get').mockReturnValue(
+            'https://ref.example.com/users/7?token=other',
+        );
+
+        initAndReturn({
+            excludedQueryParams: ['token'],
+            stripHash: true,
+            maskPaths: [{ pattern: /\/users\/\d+/, replacement: '/users/:id' }],
+        });
+
+        expect(sentBodies()[0]).toMatchObject({
+            url: 'http://localhost:3000/users/:id?email=redacted&tab=1',
+            path: '/users/:id',
+            referer: 'https://ref.example.com/users/:id',
+        });
+    });
+
+    it('redacts emails by default', () => {
+        history.replaceState(null, '', '/confirm?email=jane%40example.com');
+
+        initAndReturn();
+
+        expect(sentBodies()[0].url).toBe(
+            'http://localhost:3000/confirm?email=redacted',
+        );
+    });
+
+    it('sanitizes link targets', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createLinkTrackingPlugin()],
+            excludedQueryParams: ['token'],
+        });
+        const anchor = document.createElement('a');
+        anchor.href =
+            'https://cdn.example.com/r.pdf?token=secret&email=john@example.com';
+        anchor.addEventListener('click', (event) => event.preventDefault());
+        document.body.appendChild(anchor);
+
+        anchor.click();
+        anchor.remove();
+
+        expect(sentBodies()[0].target_url).toBe(
+            'https://cdn.example.com/r.pdf?email=redacted',
+        );
+    });
+
+    it('sanitizes page_leave URLs attributed to the previous route', () => {
+        history.replaceState(null, '', '/users/42');
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createEngagementPlugin()],
+            maskPaths: [{ pattern: /\/users\/\d+/, replacement: '/users/:id' }],
+        });
+
+        history.pushState({}, '', '/other');
+
+        const leave = sentBodies().find((body) => body.type === 'page_leave');
+        expect(leave).toMatchObject({
+            url: 'http://localhost:3000/users/:id',
+            path: '/users/:id',
+        });
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Routing modes and virtual page views
+// ---------------------------------------------------------------------------
+
+describe('routing', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    beforeEach(() => {
+        history.replaceState(null, '', '/');
+    });
+
+    it('tracks hash-only changes in history mode by default', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        history.pushState({}, '', '/#section');
+
+        expect(sentBodies()).toHaveLength(1);
+        expect(sentBodies()[0].url).toBe('http://localhost:3000/#section');
+    });
+
+    it('ignores hash-only changes in history mode when configured', () => {
+        initAndReturn({ trackPageViewOnInit: false, ignoreHashChanges: true });
+
+        history.pushState({}, '', '/#section');
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('tracks hashchange navigation once in hash mode', () => {
+        initAndReturn({ trackPageViewOnInit: false, routingMode: 'hash' });
+
+        window.location.hash = '#/settings';
+        window.dispatchEvent(new PopStateEvent('popstate'));
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+        expect(sentBodies()).toHaveLength(1);
+        expect(sentBodies()[0].path).toBe('/#/settings');
+    });
+
+    it('attributes page_leave and web_vitals to the hash route', () => {
+        vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+            { responseStart: 95 } as PerformanceNavigationTiming,
+        ]);
+        history.replaceState(null, '', '/app/#/one');
+        initAndReturn({
+            trackPageViewOnInit: false,
+            routingMode: 'hash',
+            plugins: [createEngagementPlugin(), createWebVitalsPlugin()],
+        });
+
+        window.location.hash = '#/two';
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+        expect(sentBodies().map((body) => [body.type, body.path])).toEqual([
+            ['page_leave', '/app/#/one'],
+            ['web_vitals', '/app/#/one'],
+            ['page_view', '/app/#/two'],
+        ]);
+    });
+
+    it('ignores query-only changes when configured', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            ignoreQueryChanges: true,
+        });
+
+        history.pushState({}, '', '/?page=2');
+        history.pushState({}, '', '/next');
+
+        expect(sentBodies().map((body) => body.path)).toEqual(['/next']);
+    });
+
+    it('does not track navigation in manual mode', () => {
+        initAndReturn({ trackPageViewOnInit: false, routingMode: 'manual' });
+
+        history.pushState({}, '', '/next');
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('closes the previous page on each page view in manual mode', () => {
+        vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+            { responseStart: 95 } as PerformanceNavigationTiming,
+        ]);
+        history.replaceState(null, '', '/first');
+        initAndReturn({
+            routingMode: 'manual',
+            plugins: [createEngagementPlugin(), createWebVitalsPlugin()],
+        });
+
+        history.pushState({}, '', '/second');
+        trackPageView();
+
+        expect(sentBodies().map((body) => [body.type, body.path])).toEqual([
+            ['page_view', '/first'],
+            ['page_leave', '/first'],
+            ['web_vitals', '/first'],
+            ['page_view', '/second'],
+        ]);
+    });
+
+    it('captures campaigns on page views in manual mode', () => {
+        initAndReturn({
+            routingMode: 'manual',
+            plugins: [createCampaignPlugin()],
+        });
+
+        history.pushState({}, '', '/landing?utm_source=newsletter');
+        trackPageView();
+
+        expect(sentBodies()[1].campaign.last_touch.params).toEqual({
+            utm_source: 'newsletter',
+        });
+    });
+
+    it('tracks virtual page views with a path and title', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        trackPageView({ path: '/checkout/step-2', title: 'Shipping' });
+
+        expect(sentBodies()[0]).toMatchObject({
+            type: 'page_view',
+            url: 'http://localhost:3000/checkout/step-2',
+            path: '/checkout/step-2',
+            title: 'Shipping',
+        });
+    });
+
+    it('ignores virtual page views with an invalid path', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        initAndReturn({ trackPageViewOnInit: false, debug: true });
+
+        expect(() => trackPageView({ path: 'http://' })).not.toThrow();
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(spy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            'Invalid page view path, dropping it:',
+            'http://',
+        );
+    });
+
+    it('sanitizes virtual paths', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            maskPaths: [{ pattern: /\/users\/\d+/, replacement: '/users/:id' }],
+        });
+
+        trackPageView({ path: '/users/42/edit' });
+
+        expect(sentBodies()[0].path).toBe('/users/:id/edit');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// identify() / reset()
+// ---------------------------------------------------------------------------
+
+describe('identify() and reset()', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('warns when called before init', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        identify('user-1');
+        reset();
+        expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('attaches the user ID and traits to following events', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        trackEvent('before_login');
+        identify('user-1', { plan: 'pro', seats: 5 });
+        trackEvent('after_login');
+
+        const [before, after] = sentBodies();
+        expect(before.user_id).toBeUndefined();
+        expect(after).toMatchObject({
+            user_id: 'user-1',
+            user_traits: { plan: 'pro', seats: 5 },
+        });
+        expect(after.client_id).toBe(before.client_id);
+    });
+
+    it('stores the user next to the client ID across inits', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        identify('user-1');
+
+        initAndReturn({ trackPageViewOnInit: false });
+        trackEvent('signup');
+
+        expect(sentBodies()[0].user_id).toBe('user-1');
+    });
+
+    it('sends user IDs hashed with sha256()', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        identify(sha256('user-1'));
+        trackEvent('signup');
+
+        expect(sentBodies()[0].user_id).toMatch(/^[0-9a-f]{64}$/);
+        expect(localStorage.getItem('lws_analytics_user')).not.toContain(
+            'user-1',
+        );
+    });
+
+    it('rotates the client ID and forgets the user on reset()', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        identify('user-1');
+        trackEvent('before_logout');
+
+        reset();
+        trackEvent('after_logout');
+
+        const [before, after] = sentBodies();
+        expect(after.user_id).toBeUndefined();
+        expect(after.client_id).not.toBe(before.client_id);
+        expect(localStorage.getItem('lws_analytics_user')).toBeNull();
+    });
+
+    it('starts a new session on reset()', () => {
+        initAndReturn({ trackPageViewOnInit: false, trackSessions: true });
+        trackEvent('before_logout');
+
+        reset();
+        trackEvent('after_logout');
+
+        const events = sentBodies().filter((body) => body.type === 'custom');
+        expect(events[1].session_id).not.toBe(events[0].session_id);
+    });
+
+    it('ignores identify() in anonymous mode', () => {
+        initAndReturn({ trackPageViewOnInit: false, anonymous: true });
+
+        identify('user-1');
+        trackEvent('signup');
+
+        expect(sentBodies()[0].user_id).toBeUndefined();
+        expect(localStorage.getItem('lws_analytics_user')).toBeNull();
+    });
+
+    it('keeps the user in memory until consent is given', () => {
+        initAndReturn({ trackPageViewOnInit: false, requireConsent: true });
+
+        identify('user-1');
+        expect(localStorage.getItem('lws_analytics_user')).toBeNull();
+
+        setConsent({ analytics: true });
+        expect(localStorage.getItem('lws_analytics_user')).toContain('user-1');
+        expect(sentBodies()).toHaveLength(0);
+    });
+
+    it('forgets the user when consent is denied', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        identify('user-1');
+
+        setConsent({ analytics: false });
+
+        expect(localStorage.getItem('lws_analytics_user')).toBeNull();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Campaign attribution
+// ---------------------------------------------------------------------------
+
+describe('campaign attribution', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    beforeEach(() => {
+        history.replaceState(null, '', '/');
+    });
+
+    it('does not attach attribution without the plugin', () => {
+        history.replaceState(null, '', '/?utm_source=news');
+
+        initAndReturn();
+
+        expect(sentBodies()[0].campaign).toBeUndefined();
+    });
+
+    it('attaches first- and last-touch attribution after SPA navigation', () => {
+        history.replaceState(null, '', '/landing?utm_source=news&gclid=abc');
+        vi.spyOn(document, 'referrer', 'get').mockReturnValue(
+            'https://www.bing.com/',
+        );
+
+        initAndReturn({ plugins: [createCampaignPlugin()] });
+        history.pushState({}, '', '/pricing');
+
+        const [landing, next] = sentBodies();
+        expect(landing.campaign.first_touch).toMatchObject({
+            params: { utm_source: 'news' },
+            click_ids: { gclid: 'abc' },
+            referrer_type: 'search',
+            referrer_host: 'www.bing.com',
+            landing_path: '/landing',
+        });
+        expect(next.path).toBe('/pricing');
+        expect(next.campaign).toEqual(landing.campaign);
+    });
+
+    it('records a new last touch for campaign links within the app', () => {
+        history.replaceState(null, '', '/?utm_source=news');
+        initAndReturn({ plugins: [createCampaignPlugin()] });
+
+        history.pushState({}, '', '/promo?utm_source=banner');
+
+        const campaign = sentBodies()[1].campaign;
+        expect(campaign.first_touch.params.utm_source).toBe('news');
+        expect(campaign.last_touch.params.utm_source).toBe('banner');
+    });
+
+    it('forgets the attribution on reset()', () => {
+        history.replaceState(null, '', '/?utm_source=news');
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createCampaignPlugin()],
+        });
+
+        reset();
+        trackEvent('after_reset');
+
+        expect(sentBodies()[0].campaign).toBeUndefined();
+        expect(
+            localStorage.getItem('lws_analytics_campaign:test-site'),
+        ).toBeNull();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Super properties
+// ---------------------------------------------------------------------------
+
+describe('super properties', () => {
+    function sentBodies() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map((call) =>
+            JSON.parse(call[1].body),
+        );
+    }
+
+    it('warns when called before init', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        register({ tenant: 'acme' });
+        registerOnce({ tenant: 'acme' });
+        unregister('tenant');
+        expect(spy).toHaveBeenCalledTimes(3);
+    });
+
+    it('merges registered properties into every event', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        register({ app_version: '1.2.3', bucket: () => 'b' });
+
+        trackPageView();
+        trackEvent('signup', { plan: 'pro' });
+
+        const [pageView, event] = sentBodies();
+        expect(pageView.props).toEqual({ app_version: '1.2.3', bucket: 'b' });
+        expect(event.props).toEqual({
+            app_version: '1.2.3',
+            bucket: 'b',
+            plan: 'pro',
+        });
+    });
+
+    it('lets event properties override super properties', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        register({ plan: 'free' });
+
+        trackEvent('upgrade', { plan: 'pro' });
+
+        expect(sentBodies()[0].props).toEqual({ plan: 'pro' });
+    });
+
+    it('keeps event properties when there are too many super properties', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        const props: Record<string, number> = {};
+        for (let i = 0; i < 30; i++) {
+            props['super_' + i] = i;
+        }
+        register(props);
+
+        trackEvent('signup', { plan: 'pro' });
+
+        const sent = sentBodies()[0].props;
+        expect(Object.keys(sent)).toHaveLength(25);
+        expect(sent.plan).toBe('pro');
+    });
+
+    it('drops super properties that exceed the size limit', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        const props: Record<string, string> = {};
+        for (let i = 0; i < 10; i++) {
+            props['super_' + i] = 'x'.repeat(255);
+        }
+        register(props);
+
+        trackEvent('signup', { plan: 'pro' });
+
+        const sent = sentBodies()[0].props;
+        expect(sent.plan).toBe('pro');
+        expect(sent).toHaveProperty('super_0');
+        expect(sent).not.toHaveProperty('super_9');
+    });
+
+    it('stops attaching unregistered properties', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        register({ tenant: 'acme' });
+        unregister('tenant');
+
+        trackEvent('signup');
+
+        expect(sentBodies()[0].props).toBeUndefined();
+    });
+
+    it('persists super properties across inits when enabled', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            persistSuperProperties: true,
+        });
+        register({ tenant: 'acme' });
+
+        initAndReturn({
+            trackPageViewOnInit: false,
+            persistSuperProperties: true,
+        });
+        registerOnce({ tenant: 'globex' });
+        trackEvent('signup');
+
+        expect(sentBodies()[0].props).toEqual({ tenant: 'acme' });
+    });
+
+    it('forgets super properties on reset()', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+        register({ tenant: 'acme' });
+
+        reset();
+        trackEvent('signup');
+
+        expect(sentBodies()[0].props).toBeUndefined();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Payload inspection and debug panel
+// ---------------------------------------------------------------------------
+
+describe('payload inspection', () => {
+    it('reports sent payloads', async () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        trackEvent('signup');
+
+        await vi.waitFor(() =>
+            expect(inspector).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    status: 'sent',
+                    payload: expect.objectContaining({ name: 'signup' }),
+                }),
+            ),
+        );
+    });
+
+    it('reports payloads buffered for and dropped by consent', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            requireConsent: true,
+        });
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        trackEvent('before_decision');
+        setConsent({ analytics: false });
+        trackEvent('after_denial');
+
+        expect(inspector.mock.calls.map(([entry]) => entry.status)).toEqual([
+            'buffered',
+            'dropped',
+        ]);
+        expect(inspector.mock.calls[1][0].reason).toBe('consent');
+    });
+
+    it('reports payloads queued after a failed send', async () => {
+        vi.stubGlobal(
+            'fetch',
+            vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+        );
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        trackEvent('signup');
+
+        await vi.waitFor(() =>
+            expect(inspector).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'queued' }),
+            ),
+        );
+    });
+
+    it('holds payloads while paused and sends them on resume', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        analytics.setPaused(true);
+        trackEvent('signup');
+        expect(fetch).not.toHaveBeenCalled();
+        expect(inspector).toHaveBeenCalledWith(
+            expect.objectContaining({ status: 'paused' }),
+        );
+
+        analytics.setPaused(false);
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops reporting after unsubscribing', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        const inspector = vi.fn();
+        const stop = analytics.inspect(inspector);
+
+        stop();
+        analytics.setPaused(true);
+        trackEvent('signup');
+
+        expect(inspector).not.toHaveBeenCalled();
+    });
+
+    it('replays earlier status changes to new inspectors', () => {
+        const analytics = initAndReturn({ trackPageViewOnInit: false });
+        analytics.setPaused(true);
+        trackEvent('signup');
+
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        expect(
+            inspector.mock.calls.map(([entry]) => [
+                entry.status,
+                entry.payload.name,
+            ]),
+        ).toEqual([['paused', 'signup']]);
+    });
+
+    it('shows the debug panel for the default tracker', async () => {
+        initAndReturn();
+
+        const panel = await showDebugPanel();
+        trackEvent('signup');
+
+        const host = document.getElementById('lwsa-debug-panel');
+        await vi.waitFor(() => {
+            expect(host?.shadowRoot?.textContent).toContain(
+                'page_view · Page view',
+            );
+            expect(host?.shadowRoot?.textContent).toContain('custom · signup');
+        });
+        panel?.destroy();
+    });
+
+    it('warns when showing the debug panel before init', async () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(await showDebugPanel()).toBeNull();
+        expect(spy).toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+describe('transports', () => {
+    it('records payloads with the memory transport', () => {
+        initAndReturn({ transport: 'memory' });
+
+        trackEvent('signup', { plan: 'pro' });
+
+        expect(getSentEvents().map((payload) => payload.type)).toEqual([
+            'page_view',
+            'custom',
+        ]);
+        expect(getSentEvents()[1].props).toEqual({ plan: 'pro' });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('clears recorded payloads', () => {
+        initAndReturn({ transport: 'memory' });
+
+        clearSentEvents();
+
+        expect(getSentEvents()).toEqual([]);
+    });
+
+    it('records payloads flushed on unload with the memory transport', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            transport: 'memory',
+            batchEvents: true,
+        });
+
+        trackEvent('first');
+        trackEvent('second');
+        expect(getSentEvents()).toEqual([]);
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(getSentEvents().map((payload) => payload.name)).toEqual([
+            'first',
+            'second',
+        ]);
+    });
+
+    it('reports payloads of the memory transport as sent', async () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            transport: 'memory',
+        });
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        trackEvent('signup');
+
+        await vi.waitFor(() =>
+            expect(inspector).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'sent' }),
+            ),
+        );
+    });
+
+    it('keeps recorded payloads per tracker', () => {
+        initAndReturn({ trackPageViewOnInit: false, transport: 'memory' });
+        const other = createTracker({
+            siteId: 'other-site',
+            trackPageViewOnInit: false,
+            transport: 'memory',
+        });
+
+        other.trackEvent('other');
+
+        expect(getSentEvents()).toEqual([]);
+        expect(other.getSentEvents()).toHaveLength(1);
+        other.destroy();
+    });
+
+    it('sends through a custom transport', async () => {
+        const send = vi.fn().mockResolvedValue(undefined);
+        initAndReturn({
+            trackPageViewOnInit: false,
+            transport: { name: 'custom', send },
+        });
+
+        trackEvent('signup');
+
+        expect(send).toHaveBeenCalledWith(
+            'https://dashboard.lws-analytics.eu/api/track',
+            expect.objectContaining({ name: 'signup' }),
+        );
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('queues payloads a custom transport fails to send', async () => {
+        const send = vi.fn().mockRejectedValue(new Error('Network error'));
+        initAndReturn({
+            trackPageViewOnInit: false,
+            transport: { name: 'custom', send },
+        });
+
+        trackEvent('signup');
+
+        await vi.waitFor(() => {
+            const queued = JSON.parse(
+                localStorage.getItem('lws_analytics_queue:test-site') ?? '[]',
+            );
+            expect(queued).toHaveLength(1);
+        });
+    });
+
+    it('returns no payloads for transports that do not record them', () => {
+        initAndReturn();
+
+        expect(getSentEvents()).toEqual([]);
+    });
+
+    it('warns when reading sent events before init', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(getSentEvents()).toEqual([]);
+        expect(spy).toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Impression tracking
+// ---------------------------------------------------------------------------
+
+describe('impression tracking', () => {
+    let callbacks: IntersectionObserverCallback[];
+    let disconnect: ReturnType<typeof vi.fn>;
+
+    function intersectAll(ratio: number) {
+        document.querySelectorAll('[data-lwsa-impression]').forEach((target) =>
+            callbacks.forEach((callback) =>
+                callback(
+                    [
+                        {
+                            target,
+                            isIntersecting: ratio > 0,
+                            intersectionRatio: ratio,
+                        } as IntersectionObserverEntry,
+                    ],
+                    {} as IntersectionObserver,
+                ),
+            ),
+        );
+    }
+
+    function impressions() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls
+            .map(([, request]) => JSON.parse(request.body))
+            .filter((payload) => payload.type === 'impression');
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        callbacks = [];
+        disconnect = vi.fn();
+        vi.stubGlobal(
+            'IntersectionObserver',
+            class {
+                constructor(callback: IntersectionObserverCallback) {
+                    callbacks.push(callback);
+                }
+                observe() {}
+                unobserve() {}
+                disconnect = disconnect;
+            },
+        );
+        document.body.innerHTML =
+            '<div data-lwsa-impression="promo_banner" data-lwsa-prop-variant="b"></div>';
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = '';
+        history.replaceState(null, '', '/');
+        vi.useRealTimers();
+    });
+
+    it('sends an impression event with the element properties', () => {
+        initAndReturn({ plugins: [createImpressionTrackingPlugin()] });
+
+        intersectAll(1);
+        vi.advanceTimersByTime(1000);
+
+        expect(impressions()).toEqual([
+            expect.objectContaining({
+                name: 'promo_banner',
+                props: { variant: 'b' },
+            }),
+        ]);
+    });
+
+    it('applies the configured threshold and dwell time', () => {
+        initAndReturn({
+            plugins: [
+                createImpressionTrackingPlugin({
+                    threshold: 0.8,
+                    minDwellTime: 3000,
+                }),
+            ],
+        });
+
+        intersectAll(0.6);
+        vi.advanceTimersByTime(3000);
+        expect(impressions()).toHaveLength(0);
+
+        intersectAll(0.9);
+        vi.advanceTimersByTime(3000);
+        expect(impressions()).toHaveLength(1);
+    });
+
+    it('tracks elements again after a page view', () => {
+        initAndReturn({ plugins: [createImpressionTrackingPlugin()] });
+        intersectAll(1);
+        vi.advanceTimersByTime(1000);
+
+        history.pushState(null, '', '/next-page');
+        intersectAll(1);
+        vi.advanceTimersByTime(1000);
+
+        expect(impressions()).toHaveLength(2);
+    });
+
+    it('is disabled without the plugin', () => {
+        initAndReturn();
+
+        expect(callbacks).toHaveLength(0);
+    });
+
+    it('disconnects its observers on destroy()', () => {
+        const analytics = initAndReturn({
+            plugins: [createImpressionTrackingPlugin()],
+        });
+
+        analytics.destroy();
+        intersectAll(1);
+        vi.advanceTimersByTime(1000);
+
+        expect(disconnect).toHaveBeenCalled();
+        expect(impressions()).toHaveLength(0);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Form tracking
+// ---------------------------------------------------------------------------
+
+describe('form tracking', () => {
+    function formPayloads() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls
+            .map(([, request]) => JSON.parse(request.body))
+            .filter((payload) => String(payload.type).startsWith('form_'));
+    }
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <form data-lwsa-form="signup">
+                <input name="email">
+            </form>
+        `;
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    function startForm() {
+        const field = document.querySelector('input')!;
+        field.value = 'jane@example.com';
+        field.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+    }
+
+    it('sends form start and submit events', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createFormTrackingPlugin()],
+        });
+
+        startForm();
+        document
+            .querySelector('form')!
+            .dispatchEvent(new SubmitEvent('submit', { bubbles: true }));
+
+        expect(formPayloads()).toEqual([
+            expect.objectContaining({
+                type: 'form_start',
+                name: 'signup',
+                props: { last_field: 'email', fields_touched: 1 },
+            }),
+            expect.objectContaining({
+                type: 'form_submit',
+                name: 'signup',
+                props: {
+                    last_field: 'email',
+                    fields_touched: 1,
+                    duration_ms: expect.any(Number),
+                },
+            }),
+        ]);
+        expect(JSON.stringify(formPayloads())).not.toContain('jane@example');
+    });
+
+    it('flushes the abandonment event with sendBeacon when batching', () => {
+        Object.defineProperty(navigator, 'sendBeacon', {
+            value: vi.fn().mockReturnValue(true),
+            configurable: true,
+        });
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createFormTrackingPlugin()],
+            batchEvents: true,
+        });
+        const inspector = vi.fn();
+        analytics.inspect(inspector);
+
+        startForm();
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(inspector).toHaveBeenCalledWith(
+            expect.objectContaining({
+                status: 'sent',
+                reason: 'beacon',
+                payload: expect.objectContaining({ type: 'form_abandon' }),
+            }),
+        );
+        // @ts-expect-error removing the test stub
+        delete navigator.sendBeacon;
+    });
+
+    it('abandons started forms on SPA navigation', () => {
+        history.replaceState(null, '', '/signup');
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createFormTrackingPlugin()],
+        });
+
+        startForm();
+        history.pushState(null, '', '/pricing');
+        document.body.innerHTML = '';
+        window.dispatchEvent(new Event('pagehide'));
+        history.replaceState(null, '', '/');
+
+        expect(
+            formPayloads().map((payload) => [payload.type, payload.path]),
+        ).toEqual([
+            ['form_start', '/signup'],
+            ['form_abandon', '/signup'],
+        ]);
+    });
+
+    it('respects consent like other events', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createFormTrackingPlugin()],
+            requireConsent: true,
+        });
+        setConsent({ analytics: false });
+
+        startForm();
+
+        expect(formPayloads()).toEqual([]);
+    });
+
+    it('is disabled without the plugin', () => {
+        initAndReturn({ trackPageViewOnInit: false });
+
+        startForm();
+
+        expect(formPayloads()).toEqual([]);
+    });
+
+    it('stops tracking forms on destroy()', () => {
+        const analytics = initAndReturn({
+            trackPageViewOnInit: false,
+            plugins: [createFormTrackingPlugin()],
+        });
+
+        analytics.destroy();
+        startForm();
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Commerce
+// ---------------------------------------------------------------------------
+
+describe('commerce', () => {
+    const purchase = {
+        orderId: 'order-1',
+        revenue: 59.9,
+        currency: 'EUR',
+        items: [{ id: 'sku-1', name: 'T-shirt', price: 29.95, quantity: 2 }],
+    };
+
+    let commerce: CommercePlugin;
+
+    beforeEach(() => {
+        commerce = createCommercePlugin();
+    });
+
+    function payloads() {
+        return (fetch as ReturnType<typeof vi.fn>).mock.calls.map(
+            ([, request]) => JSON.parse(request.body),
+        );
+    }
+
+    it('tracks product views and cart changes', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+
+        commerce.trackProductView({
+            id: 'sku-1',
+            name: 'T-shirt',
+            price: 29.95,
+        });
+        commerce.trackAddToCart({ id: 'sku-1', quantity: 2 });
+        commerce.trackRemoveFromCart({ id: 'sku-1', quantity: 1 });
+
+        expect(
+            payloads().map(({ type, name, commerce }) => ({
+                type,
+                name,
+                commerce,
+            })),
+        ).toEqual([
+            {
+                type: 'product_view',
+                name: 'Product view',
+                commerce: {
+                    items: [{ id: 'sku-1', name: 'T-shirt', price: 29.95 }],
+                },
+            },
+            {
+                type: 'add_to_cart',
+                name: 'Add to cart',
+                commerce: { items: [{ id: 'sku-1', quantity: 2 }] },
+            },
+            {
+                type: 'remove_from_cart',
+                name: 'Remove from cart',
+                commerce: { items: [{ id: 'sku-1', quantity: 1 }] },
+            },
+        ]);
+    });
+
+    it('tracks checkout steps', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+
+        commerce.trackCheckoutStep({
+            step: 2,
+            name: 'shipping',
+            option: 'express',
+        });
+
+        expect(payloads()[0]).toMatchObject({
+            type: 'checkout_step',
+            commerce: {
+                step: 2,
+                step_name: 'shipping',
+                option: 'express',
+                items: [],
+            },
+        });
+    });
+
+    it('ignores checkout steps without a valid step number', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+
+        commerce.trackCheckoutStep({ step: 0 });
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('tracks purchases with revenue and items', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+
+        commerce.trackPurchase(purchase);
+
+        expect(payloads()[0]).toMatchObject({
+            type: 'purchase',
+            name: 'Purchase',
+            commerce: {
+                order_id: 'order-1',
+                revenue: 59.9,
+                currency: 'EUR',
+                items: [
+                    { id: 'sku-1', name: 'T-shirt', price: 29.95, quantity: 2 },
+                ],
+            },
+        });
+    });
+
+    it('tracks each order once across reloads', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+        commerce.trackPurchase(purchase);
+
+        // Refreshing the thank-you page
+        commerce = createCommercePlugin();
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+        commerce.trackPurchase(purchase);
+        commerce.trackPurchase({ ...purchase, orderId: 'order-2' });
+
+        expect(payloads().map((payload) => payload.commerce.order_id)).toEqual([
+            'order-1',
+            'order-2',
+        ]);
+    });
+
+    it('does not remember orders without storage in anonymous mode', () => {
+        initAndReturn({
+            trackPageViewOnInit: false,
+            anonymous: true,
+            plugins: [commerce],
+        });
+
+        commerce.trackPurchase(purchase);
+        commerce.trackPurchase(purchase);
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+        expect(
+            localStorage.getItem('lws_analytics_orders:test-site'),
+        ).toBeNull();
+    });
+
+    it('ignores invalid purchases without remembering the order', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+
+        commerce.trackPurchase({ ...purchase, currency: '' });
+        commerce.trackPurchase(purchase);
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('forgets orders when consent is denied', () => {
+        initAndReturn({ trackPageViewOnInit: false, plugins: [commerce] });
+        commerce.trackPurchase(purchase);
+
+        setConsent({ analytics: false });
+
+        expect(
+            localStorage.getItem('lws_analytics_orders:test-site'),
+        ).toBeNull();
+    });
+
+    it('warns when tracking a purchase before the plugin is registered', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        commerce.trackPurchase(purchase);
+
+        expect(spy).toHaveBeenCalledWith(
+            expect.stringContaining('not registered'),
+        );
+    });
+});
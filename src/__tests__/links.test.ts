@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    classifyLink,
+    createLinkTracker,
+    DEFAULT_DOWNLOAD_EXTENSIONS,
+    type LinkTrackerOptions,
+} from '../links';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const allEnabled = {
+    outbound: true,
+    downloads: true,
+    contact: true,
+    downloadExtensions: DEFAULT_DOWNLOAD_EXTENSIONS,
+};
+
+function createLink(href: string, attributes: Record<string, string> = {}) {
+    const anchor = document.createElement('a');
+    anchor.href = href;
+    for (const [name, value] of Object.entries(attributes)) {
+        anchor.setAttribute(name, value);
+    }
+    // jsdom does not implement navigation
+    anchor.addEventListener('click', (event) => event.preventDefault());
+    document.body.appendChild(anchor);
+    return anchor;
+}
+
+function createTracker(overrides: Partial<LinkTrackerOptions> = {}) {
+    const onLink = vi.fn();
+    const tracker = createLinkTracker({
+        ...allEnabled,
+        ignore: [],
+        onLink,
+        ...overrides,
+    });
+    tracker.start();
+    return { tracker, onLink };
+}
+
+afterEach(() => {
+    document.body.innerHTML = '';
+});
+
+// ---------------------------------------------------------------------------
+// classifyLink()
+// ---------------------------------------------------------------------------
+
+describe('classifyLink()', () => {
+    it('classifies links to other domains as outbound', () => {
+        expect(
+            classifyLink(createLink('https://example.com/'), allEnabled),
+        ).toBe('outbound_link');
+    });
+
+    it('does not classify same-domain links', () => {
+        expect(classifyLink(createLink('/pricing'), allEnabled)).toBeNull();
+    });
+
+    it('classifies downloads by extension', () => {
+        expect(classifyLink(createLink('/files/report.PDF'), allEnabled)).toBe(
+            'download',
+        );
+        expect(
+            classifyLink(
+                createLink('https://cdn.example.com/app.zip'),
+                allEnabled,
+            ),
+        ).toBe('download');
+    });
+
+    it('classifies links with a download attribute as downloads', () => {
+        expect(
+            classifyLink(createLink('/export', { download: '' }), allEnabled),
+        ).toBe('download');
+    });
+
+    it('uses custom download extensions', () => {
+        const options = { ...allEnabled, downloadExtensions: ['epub'] };
+
+        expect(classifyLink(createLink('/book.epub'), options)).toBe(
+            'download',
+        );
+        expect(classifyLink(createLink('/report.pdf'), options)).toBeNull();
+    });
+
+    it('classifies mailto and tel links', () => {
+        expect(
+            classifyLink(createLink('mailto:hi@example.com'), allEnabled),
+        ).toBe('mailto');
+        expect(classifyLink(createLink('tel:+31612345678'), allEnabled)).toBe(
+            'tel',
+        );
+    });
+
+    it('respects disabled categories', () => {
+        const none = {
+            outbound: false,
+            downloads: false,
+            contact: false,
+            downloadExtensions: DEFAULT_DOWNLOAD_EXTENSIONS,
+        };
+
+        expect(
+            classifyLink(createLink('https://example.com/'), none),
+        ).toBeNull();
+        expect(classifyLink(createLink('/report.pdf'), none)).toBeNull();
+        expect(
+            classifyLink(createLink('mailto:hi@example.com'), none),
+        ).toBeNull();
+    });
+
+    it('ignores non-navigational protocols', () => {
+        expect(
+            classifyLink(createLink('javascript:void(0)'), allEnabled),
+        ).toBeNull();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Link tracker
+// ---------------------------------------------------------------------------
+
+describe('link tracker', () => {
+    it('reports clicks on tracked links', () => {
+        const { tracker, onLink } = createTracker();
+        const anchor = createLink('https://example.com/page');
+
+        anchor.click();
+
+        expect(onLink).toHaveBeenCalledWith(
+            'outbound_link',
+            'https://example.com/page',
+        );
+        tracker.stop();
+    });
+
+    it('reports clicks on children of links', () => {
+        const { tracker, onLink } = createTracker();
+        const anchor = createLink('https://example.com/');
+        const span = document.createElement('span');
+        anchor.appendChild(span);
+
+        span.click();
+
+        expect(onLink).toHaveBeenCalledOnce();
+        tracker.stop();
+    });
+
+    it('reports ctrl/meta-clicks', () => {
+        const { tracker, onLink } = createTracker();
+        const anchor = createLink('https://example.com/');
+
+        anchor.dispatchEvent(
+            new MouseEvent('click', { bubbles: true, ctrlKey: true }),
+        );
+        anchor.dispatchEvent(
+            new MouseEvent('click', { bubbles: true, metaKey: true }),
+        );
+
+        expect(onLink).toHaveBeenCalledTimes(2);
+        tracker.stop();
+    });
+
+    it('reports middle-clicks but not right-clicks', () => {
+        const { tracker, onLink } = createTracker();
+        const anchor = createLink('https://example.com/');
+
+        anchor.dispatchEvent(
+            new MouseEvent('auxclick', { bubbles: true, button: 1 }),
+        );
+        anchor.dispatchEvent(
+            new MouseEvent('auxclick', { bubbles: true, button: 2 }),
+        );
+
+        expect(onLink).toHaveBeenCalledOnce();
+        tracker.stop();
+    });
+
+    it('skips links matching the ignore list', () => {
+        const { tracker, onLink } = createTracker({
+            ignore: ['partner.example.com', /\/internal-tools\//],
+        });
+
+        createLink('https://partner.example.com/').click();
+        createLink('https://example.com/internal-tools/x').click();
+        createLink('https://example.com/').click();
+
+        expect(onLink).toHaveBeenCalledOnce();
+        tracker.stop();
+    });
+
+    it('skips links opted out with data-lwsa-ignore', () => {
+        const { tracker, onLink } = createTracker();
+
+        createLink('https://example.com/', { 'data-lwsa-ignore': '' }).click();
+
+        const wrapper = document.createElement('nav');
+        wrapper.setAttribute('data-lwsa-ignore', '');
+        const nested = createLink('https://example.com/');
+        wrapper.appendChild(nested);
+        document.body.appendChild(wrapper);
+        nested.click();
+
+        expect(onLink).not.toHaveBeenCalled();
+        tracker.stop();
+    });
+
+    it('stops listening on stop()', () => {
+        const { tracker, onLink } = createTracker();
+        tracker.stop();
+
+        createLink('https://example.com/').click();
+
+        expect(onLink).not.toHaveBeenCalled();
+    });
+});
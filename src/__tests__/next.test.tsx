@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, StrictMode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { createEngagementPlugin, getInstance } from '../index';
+import { LwsAnalyticsNextProvider } from '../next';
+import type { LwsAnalyticsConfig } from '../types';
+
+const navigation = vi.hoisted(() => ({
+    pathname: '/',
+    search: '',
+}));
+
+vi.mock('next/navigation', () => ({
+    usePathname: () => navigation.pathname,
+    useSearchParams: () => new URLSearchParams(navigation.search),
+}));
+
+let container: HTMLDivElement;
+let root: Root;
+
+function render(config: LwsAnalyticsConfig = { siteId: 'test-site' }) {
+    act(() =>
+        root.render(
+            <StrictMode>
+                <LwsAnalyticsNextProvider config={config}>
+                    <p>Page</p>
+                </LwsAnalyticsNextProvider>
+            </StrictMode>,
+        ),
+    );
+}
+
+function navigate(pathname: string, search = '', config?: LwsAnalyticsConfig) {
+    navigation.pathname = pathname;
+    navigation.search = search;
+    history.pushState(null, '', search ? `${pathname}?${search}` : pathname);
+    render(config);
+}
+
+function sentPayloads() {
+    return (fetch as ReturnType<typeof vi.fn>).mock.calls.map(([, request]) =>
+        JSON.parse(request.body),
+    );
+}
+
+function pageViewPaths() {
+    return sentPayloads()
+        .filter((payload) => payload.type === 'page_view')
+        .map((payload) => payload.path);
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    (
+        globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    getInstance()?.destroy();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response()));
+    localStorage.clear();
+    navigation.pathname = '/';
+    navigation.search = '';
+    history.replaceState(null, '', '/');
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+});
+
+afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    getInstance()?.destroy();
+    history.replaceState(null, '', '/');
+    vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// LwsAnalyticsNextProvider
+// ---------------------------------------------------------------------------
+
+describe('LwsAnalyticsNextProvider', () => {
+    it('tracks the initial page view once under StrictMode', () => {
+        render();
+
+        expect(pageViewPaths()).toEqual(['/']);
+        expect(container.textContent).toBe('Page');
+    });
+
+    it('tracks a page view when the pathname changes', () => {
+        render();
+
+        navigate('/pricing');
+
+        expect(pageViewPaths()).toEqual(['/', '/pricing']);
+    });
+
+    it('tracks a page view when the search params change', () => {
+        render();
+
+        navigate('/search', 'q=shoes');
+        navigate('/search', 'q=boots');
+
+        expect(pageViewPaths()).toEqual(['/', '/search', '/search']);
+    });
+
+    it('sends page_leave for the previous page on navigation', () => {
+        const config = {
+            siteId: 'test-site',
+            plugins: [createEngagementPlugin()],
+        };
+        render(config);
+
+        navigate('/pricing', '', config);
+
+        expect(sentPayloads().map(({ type, path }) => [type, path])).toEqual([
+            ['page_view', '/'],
+            ['page_leave', '/'],
+            ['page_view', '/pricing'],
+        ]);
+    });
+
+    it('does not track page views from history changes', () => {
+        render();
+
+        act(() => history.pushState(null, '', '/elsewhere'));
+
+        expect(pageViewPaths()).toEqual(['/']);
+    });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createPluginPipeline,
+    type LwsAnalyticsPlugin,
+    type PluginContext,
+} from '../plugins';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createPipeline() {
+    const context: PluginContext = {
+        config: { siteId: 'test-site' },
+        trackPageView: vi.fn(),
+        trackEvent: vi.fn(),
+        track: vi.fn(),
+        getPath: () => '/',
+        sanitizeUrl: (url) => url,
+        sanitizePath: (path) => path,
+        flush: vi.fn(),
+        canPersist: () => true,
+        log: vi.fn(),
+        warn: vi.fn(),
+    };
+    const warn = vi.fn();
+    const pipeline = createPluginPipeline({ context, warn });
+    return { pipeline, context, warn };
+}
+
+// ---------------------------------------------------------------------------
+// createPluginPipeline()
+// ---------------------------------------------------------------------------
+
+describe('createPluginPipeline()', () => {
+    it('runs setup with the context on registration', () => {
+        const { pipeline, context } = createPipeline();
+        const setup = vi.fn();
+
+        pipeline.use({ name: 'test', setup });
+
+        expect(setup).toHaveBeenCalledWith(context);
+    });
+
+    it('runs beforeSend hooks in registration order', () => {
+        const { pipeline } = createPipeline();
+        pipeline.use({
+            name: 'first',
+            beforeSend: (payload) => {
+                payload.order = ['first'];
+            },
+        });
+        pipeline.use({
+            name: 'second',
+            beforeSend: (payload) => ({
+                ...payload,
+                order: [...(payload.order as string[]), 'second'],
+            }),
+        });
+
+        expect(pipeline.beforeSend({ name: 'signup' })).toEqual({
+            name: 'signup',
+            order: ['first', 'second'],
+        });
+    });
+
+    it('drops the payload when a hook returns null', () => {
+        const { pipeline } = createPipeline();
+        const later = vi.fn();
+        pipeline.use({ name: 'drop', beforeSend: () => null });
+        pipeline.use({ name: 'later', beforeSend: later });
+
+        expect(pipeline.beforeSend({ name: 'signup' })).toBeNull();
+        expect(later).not.toHaveBeenCalled();
+    });
+
+    it('isolates errors thrown by hooks', () => {
+        const { pipeline, warn } = createPipeline();
+        const afterSend = vi.fn();
+        pipeline.use({
+            name: 'broken',
+            setup: () => {
+                throw new Error('setup failed');
+            },
+            beforeSend: () => {
+                throw new Error('beforeSend failed');
+            },
+            afterSend: () => {
+                throw new Error('afterSend failed');
+            },
+        });
+        pipeline.use({
+            name: 'working',
+            beforeSend: (payload) => ({ ...payload, enriched: true }),
+            afterSend,
+        });
+
+        expect(pipeline.beforeSend({ name: 'signup' })).toEqual({
+            name: 'signup',
+            enriched: true,
+        });
+        pipeline.afterSend([{ name: 'signup' }]);
+
+        expect(afterSend).toHaveBeenCalledWith({ name: 'signup' });
+        expect(warn).toHaveBeenCalledWith(
+            'Plugin "broken" failed in setup:',
+            expect.any(Error),
+        );
+        expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it('calls afterSend for every payload', () => {
+        const { pipeline } = createPipeline();
+        const afterSend = vi.fn();
+        pipeline.use({ name: 'test', afterSend });
+
+        pipeline.afterSend([{ name: 'a' }, { name: 'b' }]);
+
+        expect(afterSend).toHaveBeenCalledTimes(2);
+    });
+
+    it('runs lifecycle hooks on every plugin that has them', () => {
+        const { pipeline } = createPipeline();
+        const calls: string[] = [];
+        pipeline.use({ name: 'empty' });
+        pipeline.use({
+            name: 'test',
+            pageView: () => calls.push('pageView'),
+            routeChange: () => calls.push('routeChange'),
+            consentChange: (granted) => calls.push(`consent ${granted}`),
+            reset: () => calls.push('reset'),
+        });
+
+        pipeline.routeChange();
+        pipeline.pageView();
+        pipeline.consentChange(false);
+        pipeline.reset();
+
+        expect(calls).toEqual([
+            'routeChange',
+            'pageView',
+            'consent false',
+            'reset',
+        ]);
+    });
+
+    it('ignores plugins registered twice', () => {
+        const { pipeline, warn } = createPipeline();
+        const plugin: LwsAnalyticsPlugin = {
+            name: 'test',
+            setup: vi.fn(),
+        };
+
+        pipeline.use(plugin);
+        pipeline.use(plugin);
+
+        expect(plugin.setup).toHaveBeenCalledTimes(1);
+        expect(warn).toHaveBeenCalledWith(
+            'Plugin "test" is already registered',
+        );
+    });
+
+    it('runs teardown and unregisters plugins', () => {
+        const { pipeline } = createPipeline();
+        const teardown = vi.fn();
+        const beforeSend = vi.fn();
+        pipeline.use({ name: 'test', beforeSend, teardown });
+
+        pipeline.teardown();
+        pipeline.teardown();
+        pipeline.beforeSend({ name: 'signup' });
+
+        expect(teardown).toHaveBeenCalledTimes(1);
+        expect(beforeSend).not.toHaveBeenCalled();
+    });
+});
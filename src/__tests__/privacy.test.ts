@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectPrivacySignals, resolvePrivacyPolicy } from '../privacy';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function stubNavigator(key: string, value: unknown) {
+    Object.defineProperty(navigator, key, { value, configurable: true });
+}
+
+afterEach(() => {
+    const nav = navigator as unknown as Record<string, unknown>;
+    delete nav.doNotTrack;
+    delete nav.globalPrivacyControl;
+});
+
+// ---------------------------------------------------------------------------
+// Signal detection
+// ---------------------------------------------------------------------------
+
+describe('detectPrivacySignals()', () => {
+    it('detects Do Not Track', () => {
+        stubNavigator('doNotTrack', '1');
+
+        expect(detectPrivacySignals().doNotTrack).toBe(true);
+    });
+
+    it('treats an unset Do Not Track as disabled', () => {
+        stubNavigator('doNotTrack', null);
+
+        expect(detectPrivacySignals().doNotTrack).toBe(false);
+    });
+
+    it('detects Global Privacy Control', () => {
+        stubNavigator('globalPrivacyControl', true);
+
+        expect(detectPrivacySignals().globalPrivacyControl).toBe(true);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Policy resolution
+// ---------------------------------------------------------------------------
+
+describe('resolvePrivacyPolicy()', () => {
+    const both = { doNotTrack: true, globalPrivacyControl: true };
+    const none = { doNotTrack: false, globalPrivacyControl: false };
+
+    it('ignores signals without a configured policy', () => {
+        expect(resolvePrivacyPolicy(both, {})).toBe('ignore');
+    });
+
+    it('ignores policies for signals that are not enabled', () => {
+        expect(
+            resolvePrivacyPolicy(none, { dnt: 'disable', gpc: 'disable' }),
+        ).toBe('ignore');
+    });
+
+    it('applies the policy of an enabled signal', () => {
+        expect(
+            resolvePrivacyPolicy(
+                { doNotTrack: false, globalPrivacyControl: true },
+                { gpc: 'anonymous' },
+            ),
+        ).toBe('anonymous');
+    });
+
+    it('picks the strictest policy when both signals are enabled', () => {
+        expect(
+            resolvePrivacyPolicy(both, { dnt: 'anonymous', gpc: 'disable' }),
+        ).toBe('disable');
+        expect(
+            resolvePrivacyPolicy(both, { dnt: 'anonymous', gpc: 'ignore' }),
+        ).toBe('anonymous');
+    });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createOfflineQueue, type OfflineQueueOptions } from '../queue';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'test_queue';
+
+function createQueue(overrides: Partial<OfflineQueueOptions> = {}) {
+    return createOfflineQueue({
+        storageKey: STORAGE_KEY,
+        maxSize: 10,
+        ttl: 60_000,
+        baseDelay: 1000,
+        maxDelay: 8000,
+        send: vi.fn().mockResolvedValue(undefined),
+        log: () => {},
+        warn: () => {},
+        ...overrides,
+    });
+}
+
+function storedEntries() {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Offline queue
+// ---------------------------------------------------------------------------
+
+describe('offline queue', () => {
+    it('persists enqueued payloads in localStorage', () => {
+        const queue = createQueue();
+
+        queue.enqueue({ name: 'a' });
+
+        expect(queue.size()).toBe(1);
+        expect(storedEntries()[0].payload).toEqual({ name: 'a' });
+    });
+
+    it('drops the oldest payloads when the queue is full', () => {
+        const queue = createQueue({ maxSize: 2 });
+
+        queue.enqueue({ name: 'a' });
+        queue.enqueue({ name: 'b' });
+        queue.enqueue({ name: 'c' });
+
+        expect(
+            storedEntries().map(
+                (entry: { payload: { name: string } }) => entry.payload.name,
+            ),
+        ).toEqual(['b', 'c']);
+    });
+
+    it('discards payloads older than the TTL', async () => {
+        const send = vi.fn().mockResolvedValue(undefined);
+        const queue = createQueue({ send, ttl: 1000 });
+
+        queue.enqueue({ name: 'a' });
+        vi.advanceTimersByTime(2000);
+        await queue.flush(true);
+
+        expect(send).not.toHaveBeenCalled();
+        expect(queue.size()).toBe(0);
+    });
+
+    it('retries with exponential backoff', async () => {
+        const send = vi.fn().mockRejectedValue(new Error('offline'));
+        const queue = createQueue({ send });
+        queue.start();
+
+        queue.enqueue({ name: 'a' });
+
+        await vi.advanceTimersByTimeAsync(999);
+        expect(send).toHaveBeenCalledTimes(0);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(send).toHaveBeenCalledTimes(1);
+
+        // Second retry waits 2s
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(send).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(send).toHaveBeenCalledTimes(2);
+
+        // Third retry waits 4s
+        await vi.advanceTimersByTimeAsync(4000);
+        expect(send).toHaveBeenCalledTimes(3);
+
+        queue.stop();
+    });
+
+    it('caps the backoff delay', async () => {
+        const send = vi.fn().mockRejectedValue(new Error('offline'));
+        const queue = createQueue({ send, maxDelay: 2000 });
+        queue.start();
+
+        queue.enqueue({ name: 'a' });
+        await vi.advanceTimersByTimeAsync(1000 + 2000 + 2000 + 2000);
+
+        expect(send).toHaveBeenCalledTimes(4);
+
+        queue.stop();
+    });
+
+    it('flushes on the online event', async () => {
+        const send = vi.fn().mockResolvedValue(undefined);
+        const queue = createQueue({ send });
+        queue.enqueue({ name: 'a' });
+        queue.start();
+        await vi.advanceTimersByTimeAsync(0);
+        send.mockClear();
+
+        queue.enqueue({ name: 'b' });
+        window.dispatchEvent(new Event('online'));
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(send).toHaveBeenCalledWith({ name: 'b' });
+        expect(queue.size()).toBe(0);
+
+        queue.stop();
+    });
+
+    it('does not send a payload twice when flushes overlap', async () => {
+        let resolveSend: () => void = () => {};
+        const send = vi.fn(
+            () =>
+                new Promise<void>((resolve) => {
+                    resolveSend = resolve;
+                }),
+        );
+        const queue = createQueue({ send });
+        queue.start();
+        queue.enqueue({ name: 'a' });
+
+        const first = queue.flush(true);
+        const second = queue.flush(true);
+        resolveSend();
+        await Promise.all([first, second]);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(queue.size()).toBe(0);
+
+        queue.stop();
+    });
+
+    it('does not send a payload twice from queues sharing storage', async () => {
+        let resolveSend: () => void = () => {};
+        const send = vi.fn(
+            () =>
+                new Promise<void>((resolve) => {
+                    resolveSend = resolve;
+                }),
+        );
+        const first = createQueue({ send });
+        const second = createQueue({ send });
+        first.start();
+        second.start();
+        first.enqueue({ name: 'a' });
+
+        const flushes = [first.flush(true), second.flush(true)];
+        resolveSend();
+        await Promise.all(flushes);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(first.size()).toBe(0);
+
+        first.stop();
+        second.stop();
+    });
+
+    it('retries a payload claimed by a queue that went away', async () => {
+        const send = vi.fn().mockResolvedValue(undefined);
+        const queue = createQueue({ send, ttl: 120_000 });
+        queue.enqueue({ name: 'a' });
+        localStorage.setItem(
+            STORAGE_KEY,
+            JSON.stringify(
+                storedEntries().map((entry: object) => ({
+                    ...entry,
+                    inFlightUntil: Date.now() + 60_000,
+                })),
+            ),
+        );
+
+        queue.start();
+        await vi.advanceTimersByTimeAsync(59_999);
+        expect(send).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(send).toHaveBeenCalledWith({ name: 'a' });
+
+        queue.stop();
+    });
+
+    it('stops replaying on stop()', async () => {
+        const send = vi.fn(async () => queue.stop());
+        const queue = createQueue({ send });
+        queue.enqueue({ name: 'a' });
+        queue.enqueue({ name: 'b' });
+
+        queue.start();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(queue.size()).toBe(1);
+    });
+
+    it('does not replay payloads removed by clear()', async () => {
+        const send = vi.fn(async () => queue.clear());
+        const queue = createQueue({ send });
+        queue.enqueue({ name: 'a' });
+        queue.enqueue({ name: 'b' });
+
+        queue.start();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(queue.size()).toBe(0);
+
+        queue.stop();
+    });
+
+    it('keeps queued payloads after stop()', () => {
+        const queue = createQueue();
+        queue.start();
+
+        queue.enqueue({ name: 'a' });
+        queue.stop();
+
+        expect(queue.size()).toBe(1);
+    });
+
+    it('stops listening for online events after stop()', async () => {
+        const send = vi.fn().mockResolvedValue(undefined);
+        const queue = createQueue({ send });
+        queue.start();
+        queue.stop();
+
+        queue.enqueue({ name: 'a' });
+        window.dispatchEvent(new Event('online'));
+        await vi.advanceTimersByTimeAsync(60_000);
+
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('ignores corrupt storage', () => {
+        localStorage.setItem(STORAGE_KEY, '{not json');
+        const queue = createQueue();
+
+        expect(queue.size()).toBe(0);
+        queue.enqueue({ name: 'a' });
+        expect(queue.size()).toBe(1);
+    });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, StrictMode, type ReactNode } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { getInstance, init, isReady } from '../index';
+import {
+    LwsAnalyticsProvider,
+    TrackOnView,
+    useLwsAnalytics,
+    useTrackEvent,
+} from '../react';
+
+const config = { siteId: 'test-site' };
+
+let container: HTMLDivElement;
+let root: Root;
+
+function render(node: ReactNode) {
+    act(() => root.render(<StrictMode>{node}</StrictMode>));
+}
+
+function unmount() {
+    act(() => root.unmount());
+    // The provider destroys its tracker after StrictMode had a chance to
+    // mount it again
+    act(() => vi.runOnlyPendingTimers());
+}
+
+function sentPayloads() {
+    return (fetch as ReturnType<typeof vi.fn>).mock.calls.map(([, request]) =>
+        JSON.parse(request.body),
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    (
+        globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+    ).IS_REACT_ACT_ENVIRONMENT = true;
+    vi.useFakeTimers();
+    getInstance()?.destroy();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response()));
+    localStorage.clear();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+});
+
+afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    getInstance()?.destroy();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// LwsAnalyticsProvider
+// ---------------------------------------------------------------------------
+
+describe('LwsAnalyticsProvider', () => {
+    it('initializes once under StrictMode', () => {
+        render(<LwsAnalyticsProvider config={config} />);
+
+        expect(isReady()).toBe(true);
+        expect(sentPayloads().map((payload) => payload.type)).toEqual([
+            'page_view',
+        ]);
+    });
+
+    it('provides the instance to children', () => {
+        let provided: unknown = null;
+        function Child() {
+            provided = useLwsAnalytics();
+            return null;
+        }
+
+        render(
+            <LwsAnalyticsProvider config={config}>
+                <Child />
+            </LwsAnalyticsProvider>,
+        );
+
+        expect(provided).toBe(getInstance());
+    });
+
+    it('destroys the tracker when unmounted', () => {
+        render(<LwsAnalyticsProvider config={config} />);
+
+        unmount();
+
+        expect(isReady()).toBe(false);
+    });
+
+    it('reuses an instance created with init()', () => {
+        const analytics = init({ ...config, trackPageViewOnInit: false });
+
+        render(<LwsAnalyticsProvider config={config} />);
+        unmount();
+
+        expect(getInstance()).toBe(analytics);
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// useTrackEvent()
+// ---------------------------------------------------------------------------
+
+describe('useTrackEvent()', () => {
+    it('tracks custom events through the provider', () => {
+        let track: ReturnType<typeof useTrackEvent> | null = null;
+        function Child() {
+            track = useTrackEvent();
+            return null;
+        }
+        render(
+            <LwsAnalyticsProvider
+                config={{ ...config, trackPageViewOnInit: false }}
+            >
+                <Child />
+            </LwsAnalyticsProvider>,
+        );
+
+        track!('signup', { plan: 'pro' });
+
+        expect(sentPayloads()).toEqual([
+            expect.objectContaining({
+                type: 'custom',
+                name: 'signup',
+                props: { plan: 'pro' },
+            }),
+        ]);
+    });
+
+    it('returns a stable function', () => {
+        const tracks: unknown[] = [];
+        function Child() {
+            tracks.push(useTrackEvent());
+            return null;
+        }
+
+        render(
+            <LwsAnalyticsProvider config={config}>
+                <Child />
+            </LwsAnalyticsProvider>,
+        );
+
+        expect(new Set(tracks).size).toBe(1);
+    });
+
+    it('warns when used without a tracker', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        let track: ReturnType<typeof useTrackEvent> | null = null;
+        function Child() {
+            track = useTrackEvent();
+            return null;
+        }
+        render(<Child />);
+
+        track!('signup');
+
+        expect(spy).toHaveBeenCalledWith(
+            expect.stringContaining('Not initialized'),
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// TrackOnView
+// ---------------------------------------------------------------------------
+
+describe('TrackOnView', () => {
+    let observers: { callback: IntersectionObserverCallback }[];
+
+    function intersect(isIntersecting: boolean) {
+        act(() =>
+            observers.forEach(({ callback }) =>
+                callback(
+                    [{ isIntersecting } as IntersectionObserverEntry],
+                    {} as IntersectionObserver,
+                ),
+            ),
+        );
+    }
+
+    beforeEach(() => {
+        observers = [];
+        vi.stubGlobal(
+            'IntersectionObserver',
+            class {
+                constructor(public callback: IntersectionObserverCallback) {}
+                observe() {
+                    observers.push(this);
+                }
+                disconnect() {
+                    observers = observers.filter((entry) => entry !== this);
+                }
+            },
+        );
+    });
+
+    it('tracks an event when the children become visible', () => {
+        render(
+            <LwsAnalyticsProvider
+                config={{ ...config, trackPageViewOnInit: false }}
+            >
+                <TrackOnView event="pricing_seen" props={{ plan: 'pro' }}>
+                    <p>Pricing</p>
+                </TrackOnView>
+            </LwsAnalyticsProvider>,
+        );
+
+        intersect(false);
+        expect(fetch).not.toHaveBeenCalled();
+
+        intersect(true);
+        expect(sentPayloads()).toEqual([
+            expect.objectContaining({
+                name: 'pricing_seen',
+                props: { plan: 'pro' },
+            }),
+        ]);
+        expect(container.textContent).toBe('Pricing');
+    });
+
+    it('tracks only the first time by default', () => {
+        render(
+            <LwsAnalyticsProvider
+                config={{ ...config, trackPageViewOnInit: false }}
+            >
+                <TrackOnView event="pricing_seen" />
+            </LwsAnalyticsProvider>,
+        );
+
+        intersect(true);
+        intersect(true);
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('tracks every time with once={false}', () => {
+        render(
+            <LwsAnalyticsProvider
+                config={{ ...config, trackPageViewOnInit: false }}
+            >
+                <TrackOnView event="pricing_seen" once={false} />
+            </LwsAnalyticsProvider>,
+        );
+
+        intersect(true);
+        intersect(true);
+
+        expect(fetch).toHaveBeenCalledTimes(2);
+    });
+});
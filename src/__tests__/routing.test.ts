@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { getPageKey, getPagePath, type PageChangeRules } from '../routing';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function location(href: string) {
+    const { origin, pathname, search, hash } = new URL(href);
+    return { origin, pathname, search, hash };
+}
+
+function rules(overrides: Partial<PageChangeRules> = {}): PageChangeRules {
+    return {
+        mode: 'history',
+        ignoreQueryChanges: false,
+        ignoreHashChanges: true,
+        ...overrides,
+    };
+}
+
+function isSamePage(from: string, to: string, ruleSet: PageChangeRules) {
+    return (
+        getPageKey(location(from), ruleSet) ===
+        getPageKey(location(to), ruleSet)
+    );
+}
+
+// ---------------------------------------------------------------------------
+// getPageKey()
+// ---------------------------------------------------------------------------
+
+describe('getPageKey()', () => {
+    it('treats path changes as a new page', () => {
+        expect(
+            isSamePage('https://a.test/one', 'https://a.test/two', rules()),
+        ).toBe(false);
+    });
+
+    it('ignores hash-only changes in history mode by default', () => {
+        expect(
+            isSamePage(
+                'https://a.test/docs',
+                'https://a.test/docs#intro',
+                rules(),
+            ),
+        ).toBe(true);
+        expect(
+            isSamePage(
+                'https://a.test/docs',
+                'https://a.test/docs#intro',
+                rules({ ignoreHashChanges: false }),
+            ),
+        ).toBe(false);
+    });
+
+    it('ignores query-only changes when configured', () => {
+        expect(
+            isSamePage(
+                'https://a.test/?page=1',
+                'https://a.test/?page=2',
+                rules(),
+            ),
+        ).toBe(false);
+        expect(
+            isSamePage(
+                'https://a.test/?page=1',
+                'https://a.test/?page=2',
+                rules({ ignoreQueryChanges: true }),
+            ),
+        ).toBe(true);
+    });
+
+    it('treats hash routes as pages in hash mode', () => {
+        const hashRules = rules({ mode: 'hash' });
+
+        expect(
+            isSamePage(
+                'https://a.test/#/one',
+                'https://a.test/#/two',
+                hashRules,
+            ),
+        ).toBe(false);
+        expect(
+            isSamePage(
+                'https://a.test/#/list?page=1',
+                'https://a.test/#/list?page=2',
+                { ...hashRules, ignoreQueryChanges: true },
+            ),
+        ).toBe(true);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// getPagePath()
+// ---------------------------------------------------------------------------
+
+describe('getPagePath()', () => {
+    it('returns the pathname outside hash mode', () => {
+        expect(
+            getPagePath(location('https://a.test/app/#/settings'), 'history'),
+        ).toBe('/app/');
+    });
+
+    it('appends the hash route without its query in hash mode', () => {
+        expect(
+            getPagePath(location('https://a.test/app/#/list?page=2'), 'hash'),
+        ).toBe('/app/#/list');
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSessionManager, type SessionManagerOptions } from '../session';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'test_session';
+const TIMEOUT = 30 * 60 * 1000;
+
+function createManager(overrides: Partial<SessionManagerOptions> = {}) {
+    const onStart = vi.fn();
+    const onEnd = vi.fn();
+    const manager = createSessionManager({
+        storageKey: STORAGE_KEY,
+        timeout: TIMEOUT,
+        rotation: 'none',
+        canPersist: () => true,
+        onStart,
+        onEnd,
+        ...overrides,
+    });
+    return { manager, onStart, onEnd };
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 15, 12, 0, 0));
+    sessionStorage.clear();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Session manager
+// ---------------------------------------------------------------------------
+
+describe('session manager', () => {
+    it('starts a session on first activity', () => {
+        const { manager, onStart } = createManager();
+
+        const session = manager.touch(true);
+
+        expect(session.id).toBeTruthy();
+        expect(session.pageViews).toBe(1);
+        expect(onStart).toHaveBeenCalledOnce();
+    });
+
+    it('keeps the session while the visitor is active', () => {
+        const { manager, onStart } = createManager();
+
+        const first = manager.touch(true);
+        vi.advanceTimersByTime(TIMEOUT - 1);
+        const second = manager.touch(false);
+
+        expect(second.id).toBe(first.id);
+        expect(second.pageViews).toBe(1);
+        expect(onStart).toHaveBeenCalledOnce();
+    });
+
+    it('rotates the session after the inactivity timeout', () => {
+        const { manager, onStart, onEnd } = createManager();
+
+        const first = manager.touch(true);
+        vi.advanceTimersByTime(TIMEOUT + 1);
+        const second = manager.touch(true);
+
+        expect(second.id).not.toBe(first.id);
+        expect(second.pageViews).toBe(1);
+        expect(onEnd).toHaveBeenCalledWith(
+            expect.objectContaining({ id: first.id }),
+        );
+        expect(onStart).toHaveBeenCalledTimes(2);
+    });
+
+    it('rotates the session at local midnight', () => {
+        vi.setSystemTime(new Date(2026, 0, 15, 23, 59, 0));
+        const { manager } = createManager({ rotation: 'local' });
+
+        const first = manager.touch(true);
+        vi.setSystemTime(new Date(2026, 0, 16, 0, 1, 0));
+        const second = manager.touch(true);
+
+        expect(second.id).not.toBe(first.id);
+    });
+
+    it('rotates the session at UTC midnight', () => {
+        vi.setSystemTime(new Date(Date.UTC(2026, 0, 15, 23, 59, 0)));
+        const { manager } = createManager({ rotation: 'utc' });
+
+        const first = manager.touch(true);
+        vi.setSystemTime(new Date(Date.UTC(2026, 0, 16, 0, 1, 0)));
+        const second = manager.touch(true);
+
+        expect(second.id).not.toBe(first.id);
+    });
+
+    it('restores the session from sessionStorage', () => {
+        const { manager } = createManager();
+        const first = manager.touch(true);
+
+        const { manager: restored, onStart } = createManager();
+        const second = restored.touch(true);
+
+        expect(second.id).toBe(first.id);
+        expect(second.pageViews).toBe(2);
+        expect(onStart).not.toHaveBeenCalled();
+    });
+
+    it('keeps the session in memory when persisting is not allowed', () => {
+        const { manager } = createManager({ canPersist: () => false });
+
+        manager.touch(true);
+
+        expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+        expect(manager.current()).not.toBeNull();
+    });
+
+    it('removes the session on clear()', () => {
+        const { manager } = createManager();
+        manager.touch(true);
+
+        manager.clear();
+
+        expect(manager.current()).toBeNull();
+        expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+});
@@ -4,6 +4,7 @@ import { getInstance, DEFAULT_ENDPOINT } from '../index';
 function setWindowGlobals(
     overrides: Partial<{
         siteId: string;
+        endpoint: string;
         debug: boolean;
     }> = {},
 ) {
@@ -14,12 +15,22 @@ function setWindowGlobals(
     const config = { ...defaults, ...overrides };
 
     window.LWS_ANALYTICS_SITE_ID = config.siteId;
+    if ('endpoint' in config) {
+        window.LWS_ANALYTICS_ENDPOINT = config.endpoint;
+    }
     window.LWS_ANALYTICS_DEBUG = config.debug;
 }
 
 function clearWindowGlobals() {
     delete window.LWS_ANALYTICS_SITE_ID;
+    delete window.LWS_ANALYTICS_ENDPOINT;
     delete window.LWS_ANALYTICS_DEBUG;
+    delete window.LWS_ANALYTICS_REQUIRE_CONSENT;
+    delete window.LWS_ANALYTICS_ANONYMOUS;
+    delete window.LWS_ANALYTICS_RESPECT_DNT;
+    delete window.LWS_ANALYTICS_RESPECT_GPC;
+    delete window.LWS_ANALYTICS_ROUTING_MODE;
+    delete window.LWS_ANALYTICS_TRANSPORT;
     delete window.LwsAnalytics;
 }
 
@@ -87,6 +98,17 @@ describe('standalone script', () => {
             expect.any(Object),
         );
     });
+
+    it('uses window.LWS_ANALYTICS_ENDPOINT when configured', async () => {
+        setWindowGlobals({ endpoint: '/lwsa/track' });
+
+        await loadStandalone();
+
+        expect(fetch).toHaveBeenCalledWith(
+            window.location.origin + '/lwsa/track',
+            expect.any(Object),
+        );
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -177,4 +199,153 @@ describe('standalone script — global API', () => {
         expect(body.type).toBe('custom');
         expect(body.name).toBe('form_submit');
     });
+
+    it('exposes error and commerce tracking on window.LwsAnalytics', async () => {
+        setWindowGlobals();
+
+        await loadStandalone();
+
+        (fetch as ReturnType<typeof vi.fn>).mockClear();
+
+        window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+        window.LwsAnalytics!.trackError!(new Error('payment failed'));
+        window.LwsAnalytics!.trackPurchase!({
+            orderId: 'order-1',
+            revenue: 10,
+            currency: 'EUR',
+            items: [],
+        });
+
+        expect(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls.map(
+                ([, request]) => JSON.parse(request.body).type,
+            ),
+        ).toEqual(['error', 'purchase']);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Privacy flags
+// ---------------------------------------------------------------------------
+
+describe('standalone script — privacy', () => {
+    it('buffers events until window.LwsAnalytics.setConsent() is called', async () => {
+        setWindowGlobals();
+        window.LWS_ANALYTICS_REQUIRE_CONSENT = true;
+
+        await loadStandalone();
+        expect(fetch).not.toHaveBeenCalled();
+
+        window.LwsAnalytics!.setConsent({ analytics: true });
+
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('omits the client ID when window.LWS_ANALYTICS_ANONYMOUS is set', async () => {
+        setWindowGlobals();
+        window.LWS_ANALYTICS_ANONYMOUS = true;
+
+        await loadStandalone();
+
+        const body = JSON.parse(
+            (fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body,
+        );
+        expect(body.client_id).toBeNull();
+    });
+
+    it('honors Do Not Track when window.LWS_ANALYTICS_RESPECT_DNT is set', async () => {
+        Object.defineProperty(navigator, 'doNotTrack', {
+            value: '1',
+            configurable: true,
+        });
+        setWindowGlobals();
+        window.LWS_ANALYTICS_RESPECT_DNT = 'disable';
+
+        await loadStandalone();
+
+        expect(getInstance()).not.toBeNull();
+        expect(fetch).not.toHaveBeenCalled();
+
+        delete (navigator as unknown as Record<string, unknown>).doNotTrack;
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+describe('standalone script — routing', () => {
+    it('tracks hash routes when window.LWS_ANALYTICS_ROUTING_MODE is hash', async () => {
+        history.replaceState(null, '', '/');
+        setWindowGlobals();
+        window.LWS_ANALYTICS_ROUTING_MODE = 'hash';
+
+        await loadStandalone();
+        window.location.hash = '#/settings';
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+        const calls = (fetch as ReturnType<typeof vi.fn>).mock.calls;
+        expect(calls).toHaveLength(2);
+        expect(JSON.parse(calls[1][1].body).path).toBe('/#/settings');
+
+        history.replaceState(null, '', '/');
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Debug panel
+// ---------------------------------------------------------------------------
+
+describe('standalone script — debug panel', () => {
+    function debugScripts() {
+        return Array.from(
+            document.head.querySelectorAll<HTMLScriptElement>('script'),
+        ).filter((script) => script.src.endsWith('/debug.js'));
+    }
+
+    afterEach(() => {
+        debugScripts().forEach((script) => script.remove());
+        history.replaceState(null, '', '/');
+    });
+
+    it('loads the debug panel next to the script with ?lwsa_debug=1', async () => {
+        const current = document.createElement('script');
+        current.src = 'https://cdn.example.com/v2/script.js';
+        vi.spyOn(document, 'currentScript', 'get').mockReturnValue(current);
+        history.replaceState(null, '', '/?lwsa_debug=1');
+        setWindowGlobals();
+
+        await loadStandalone();
+
+        expect(debugScripts().map((script) => script.src)).toEqual([
+            'https://cdn.example.com/v2/debug.js',
+        ]);
+    });
+
+    it('does not load the debug panel by default', async () => {
+        setWindowGlobals();
+
+        await loadStandalone();
+
+        expect(debugScripts()).toHaveLength(0);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+describe('standalone script — transport', () => {
+    it('records payloads when window.LWS_ANALYTICS_TRANSPORT is memory', async () => {
+        setWindowGlobals();
+        window.LWS_ANALYTICS_TRANSPORT = 'memory';
+
+        await loadStandalone();
+        window.LwsAnalytics!.trackCustomEvent('signup');
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(
+            window.LwsAnalytics!.getSentEvents().map((payload) => payload.name),
+        ).toEqual(['Page view', 'signup']);
+    });
 });
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    createSuperProperties,
+    type SuperPropertiesOptions,
+} from '../super-properties';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'test_super_properties';
+
+function createStore(overrides: Partial<SuperPropertiesOptions> = {}) {
+    const warn = vi.fn();
+    const store = createSuperProperties({
+        storageKey: STORAGE_KEY,
+        persist: false,
+        canPersist: () => true,
+        warn,
+        ...overrides,
+    });
+    return { store, warn };
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+// ---------------------------------------------------------------------------
+// createSuperProperties()
+// ---------------------------------------------------------------------------
+
+describe('createSuperProperties()', () => {
+    it('registers and unregisters properties', () => {
+        const { store } = createStore();
+
+        store.register({ app_version: '1.2.3', tenant: 'acme' });
+        store.register({ tenant: 'globex' });
+        store.unregister('app_version');
+
+        expect(store.resolve()).toEqual({ tenant: 'globex' });
+    });
+
+    it('does not overwrite properties with registerOnce()', () => {
+        const { store } = createStore();
+
+        store.register({ bucket: 'a' });
+        store.registerOnce({ bucket: 'b', tenant: 'acme' });
+
+        expect(store.resolve()).toEqual({ bucket: 'a', tenant: 'acme' });
+    });
+
+    it('registers keys named like Object.prototype members once', () => {
+        const { store } = createStore();
+
+        store.registerOnce({ constructor: 'a', toString: 'b' });
+
+        expect(store.resolve()).toEqual({ constructor: 'a', toString: 'b' });
+    });
+
+    it('evaluates functions every time values are resolved', () => {
+        const { store } = createStore();
+        let count = 0;
+
+        store.register({ count: () => ++count });
+
+        expect(store.resolve()).toEqual({ count: 1 });
+        expect(store.resolve()).toEqual({ count: 2 });
+    });
+
+    it('skips functions that throw', () => {
+        const { store, warn } = createStore();
+
+        store.register({
+            broken: () => {
+                throw new Error('boom');
+            },
+            tenant: 'acme',
+        });
+
+        expect(store.resolve()).toEqual({ tenant: 'acme' });
+        expect(warn).toHaveBeenCalledWith(
+            'Super property "broken" failed:',
+            expect.any(Error),
+        );
+    });
+
+    it('rejects values that are not objects', () => {
+        const { store, warn } = createStore();
+
+        store.register('tenant' as never);
+
+        expect(store.resolve()).toEqual({});
+        expect(warn).toHaveBeenCalled();
+    });
+
+    it('persists static values when enabled', () => {
+        createStore({ persist: true }).store.register({
+            tenant: 'acme',
+            now: () => 1,
+        });
+
+        expect(createStore({ persist: true }).store.resolve()).toEqual({
+            tenant: 'acme',
+        });
+    });
+
+    it('does not persist by default', () => {
+        createStore().store.register({ tenant: 'acme' });
+
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+        expect(createStore().store.resolve()).toEqual({});
+    });
+
+    it('waits for storage to be allowed before persisting', () => {
+        let canPersist = false;
+        const { store } = createStore({
+            persist: true,
+            canPersist: () => canPersist,
+        });
+
+        store.register({ tenant: 'acme' });
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+
+        canPersist = true;
+        store.save();
+        expect(localStorage.getItem(STORAGE_KEY)).toContain('acme');
+    });
+
+    it('clears values and storage', () => {
+        const { store } = createStore({ persist: true });
+        store.register({ tenant: 'acme' });
+
+        store.clear();
+
+        expect(store.resolve()).toEqual({});
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+});
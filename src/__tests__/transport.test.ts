@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    createBeaconTransport,
+    createConsoleTransport,
+    createFetchTransport,
+    createMemoryTransport,
+    resolveTransport,
+} from '../transport';
+
+const ENDPOINT = 'https://collector.example.com/track';
+
+function stubBeacon(result: boolean) {
+    const sendBeacon = vi.fn().mockReturnValue(result);
+    Object.defineProperty(navigator, 'sendBeacon', {
+        value: sendBeacon,
+        configurable: true,
+    });
+    return sendBeacon;
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response()));
+});
+
+afterEach(() => {
+    // @ts-expect-error removing the test stub
+    delete navigator.sendBeacon;
+    vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// fetch
+// ---------------------------------------------------------------------------
+
+describe('createFetchTransport()', () => {
+    it('posts the body as JSON', async () => {
+        await createFetchTransport().send(ENDPOINT, { name: 'signup' });
+
+        expect(fetch).toHaveBeenCalledWith(
+            ENDPOINT,
+            expect.objectContaining({
+                method: 'POST',
+                body: '{"name":"signup"}',
+                keepalive: true,
+            }),
+        );
+    });
+
+    it('rejects on server errors so the payload is retried', async () => {
+        vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 503 }));
+
+        await expect(
+            createFetchTransport().send(ENDPOINT, { name: 'signup' }),
+        ).rejects.toThrow('503');
+    });
+
+    it('resolves on client errors', async () => {
+        vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 400 }));
+
+        await expect(
+            createFetchTransport().send(ENDPOINT, { name: 'signup' }),
+        ).resolves.toBeUndefined();
+    });
+
+    it('uses sendBeacon on unload', () => {
+        const sendBeacon = stubBeacon(true);
+
+        expect(
+            createFetchTransport().sendOnUnload?.(ENDPOINT, { name: 'a' }),
+        ).toBe(true);
+        expect(sendBeacon).toHaveBeenCalledWith(ENDPOINT, expect.any(Blob));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// beacon
+// ---------------------------------------------------------------------------
+
+describe('createBeaconTransport()', () => {
+    it('sends with sendBeacon', async () => {
+        const sendBeacon = stubBeacon(true);
+
+        await createBeaconTransport().send(ENDPOINT, { name: 'signup' });
+
+        expect(sendBeacon).toHaveBeenCalledOnce();
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('falls back to fetch when sendBeacon refuses the body', async () => {
+        stubBeacon(false);
+
+        await createBeaconTransport().send(ENDPOINT, { name: 'signup' });
+
+        expect(fetch).toHaveBeenCalledOnce();
+    });
+
+    it('falls back to fetch when sendBeacon is unavailable', async () => {
+        await createBeaconTransport().send(ENDPOINT, { name: 'signup' });
+
+        expect(fetch).toHaveBeenCalledOnce();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// memory
+// ---------------------------------------------------------------------------
+
+describe('createMemoryTransport()', () => {
+    it('records payloads without sending them', async () => {
+        const transport = createMemoryTransport();
+
+        await transport.send(ENDPOINT, { name: 'first' });
+        transport.sendOnUnload?.(ENDPOINT, { name: 'second' });
+
+        expect(transport.getSentEvents?.()).toEqual([
+            { name: 'first' },
+            { name: 'second' },
+        ]);
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('records each payload of a batch', async () => {
+        const transport = createMemoryTransport();
+
+        await transport.send(ENDPOINT, [{ name: 'first' }, { name: 'second' }]);
+
+        expect(transport.getSentEvents?.()).toHaveLength(2);
+    });
+
+    it('forgets recorded payloads', async () => {
+        const transport = createMemoryTransport();
+        await transport.send(ENDPOINT, { name: 'first' });
+
+        transport.clearSentEvents?.();
+
+        expect(transport.getSentEvents?.()).toEqual([]);
+    });
+
+    it('returns a copy of the recorded payloads', async () => {
+        const transport = createMemoryTransport();
+        transport.getSentEvents?.().push({ name: 'injected' });
+
+        expect(transport.getSentEvents?.()).toEqual([]);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// console
+// ---------------------------------------------------------------------------
+
+describe('createConsoleTransport()', () => {
+    it('prints payloads without sending them', async () => {
+        const spy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        await createConsoleTransport().send(ENDPOINT, [
+            { name: 'first' },
+            { name: 'second' },
+        ]);
+
+        expect(spy).toHaveBeenCalledTimes(2);
+        expect(spy).toHaveBeenCalledWith(
+            '[LWS Analytics]',
+            `Payload for ${ENDPOINT}:`,
+            { name: 'first' },
+        );
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// resolveTransport()
+// ---------------------------------------------------------------------------
+
+describe('resolveTransport()', () => {
+    it('defaults to fetch', () => {
+        expect(resolveTransport(undefined, vi.fn()).name).toBe('fetch');
+    });
+
+    it('creates built-in transports by name', () => {
+        expect(resolveTransport('memory', vi.fn()).name).toBe('memory');
+        expect(resolveTransport('console', vi.fn()).name).toBe('console');
+        expect(resolveTransport('beacon', vi.fn()).name).toBe('beacon');
+    });
+
+    it('uses custom transports as-is', () => {
+        const custom = { name: 'custom', send: vi.fn() };
+
+        expect(resolveTransport(custom, vi.fn())).toBe(custom);
+    });
+
+    it('warns and falls back to fetch for unknown names', () => {
+        const warn = vi.fn();
+
+        // @ts-expect-error testing an invalid name
+        expect(resolveTransport('carrier-pigeon', warn).name).toBe('fetch');
+        expect(warn).toHaveBeenCalled();
+    });
+});
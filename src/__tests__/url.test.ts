@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createUrlSanitizer, type UrlSanitizerOptions } from '../url';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function createSanitizer(overrides: Partial<UrlSanitizerOptions> = {}) {
+    return createUrlSanitizer({
+        excludedParams: [],
+        stripHash: false,
+        pathMasks: [],
+        redactEmails: true,
+        ...overrides,
+    });
+}
+
+// ---------------------------------------------------------------------------
+// createUrlSanitizer()
+// ---------------------------------------------------------------------------
+
+describe('createUrlSanitizer()', () => {
+    it('leaves clean URLs untouched', () => {
+        const sanitizer = createSanitizer();
+        const url = 'https://example.com/pricing?plan=pro&q=a%20b#faq';
+
+        expect(sanitizer.url(url)).toBe(url);
+        expect(sanitizer.path('/pricing')).toBe('/pricing');
+    });
+
+    it('removes excluded query parameters case-insensitively', () => {
+        const sanitizer = createSanitizer({
+            excludedParams: ['token', 'sessionid'],
+        });
+
+        expect(
+            sanitizer.url(
+                'https://example.com/reset?Token=abc&SessionId=1&step=2',
+            ),
+        ).toBe('https://example.com/reset?step=2');
+    });
+
+    it('keeps only allowed query parameters', () => {
+        const sanitizer = createSanitizer({
+            allowedParams: ['utm_source', 'page'],
+            excludedParams: ['page'],
+        });
+
+        expect(
+            sanitizer.url(
+                'https://example.com/?utm_source=news&page=2&token=abc',
+            ),
+        ).toBe('https://example.com/?utm_source=news');
+    });
+
+    it('strips the hash when configured', () => {
+        const sanitizer = createSanitizer({ stripHash: true });
+
+        expect(sanitizer.url('https://example.com/docs#install')).toBe(
+            'https://example.com/docs',
+        );
+    });
+
+    it('masks paths in URLs and paths', () => {
+        const sanitizer = createSanitizer({
+            pathMasks: [
+                { pattern: /\/users\/\d+/g, replacement: '/users/:id' },
+                { pattern: /\/orders\/[^/]+/, replacement: '/orders/:order' },
+            ],
+        });
+
+        expect(sanitizer.path('/users/123/orders/ab-12')).toBe(
+            '/users/:id/orders/:order',
+        );
+        expect(sanitizer.url('https://example.com/users/42?tab=1')).toBe(
+            'https://example.com/users/:id?tab=1',
+        );
+    });
+
+    it('redacts emails in the path, query and hash', () => {
+        const sanitizer = createSanitizer();
+
+        expect(
+            sanitizer.url(
+                'https://example.com/u/jane.doe@example.com?email=john%2Btest%40example.org#to=a@b.io',
+            ),
+        ).toBe('https://example.com/u/redacted?email=redacted#to=redacted');
+        expect(sanitizer.path('/u/jane@example.com')).toBe('/u/redacted');
+    });
+
+    it('keeps emails when redaction is disabled', () => {
+        const sanitizer = createSanitizer({ redactEmails: false });
+
+        expect(sanitizer.url('https://example.com/?email=a@b.io')).toBe(
+            'https://example.com/?email=a@b.io',
+        );
+    });
+
+    it('redacts emails in values that are not URLs', () => {
+        const sanitizer = createSanitizer();
+
+        expect(sanitizer.url('not a url a@b.io')).toBe('not a url redacted');
+    });
+});
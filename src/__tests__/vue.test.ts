@@ -0,0 +1,337 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    createApp,
+    defineComponent,
+    h,
+    nextTick,
+    ref,
+    resolveDirective,
+    withDirectives,
+    type App,
+    type Component,
+} from 'vue';
+import {
+    createMemoryHistory,
+    createRouter,
+    createWebHashHistory,
+    createWebHistory,
+    type Router,
+} from 'vue-router';
+import { createEngagementPlugin, getInstance, isReady } from '../index';
+import { LwsAnalytics, useAnalytics, type EventDirectiveValue } from '../vue';
+
+let app: App | null = null;
+let container: HTMLDivElement;
+
+function mount(
+    component: Component,
+    options: Parameters<typeof LwsAnalytics.install>[1] = {
+        siteId: 'test-site',
+    },
+) {
+    app = createApp(component);
+    app.use(LwsAnalytics, options);
+    if (options.router) {
+        app.use(options.router);
+    }
+    app.mount(container);
+    return app;
+}
+
+function button(value: () => EventDirectiveValue) {
+    return defineComponent({
+        render: () =>
+            withDirectives(h('button', 'Click'), [
+                [resolveDirective('lwsa-event')!, value()],
+            ]),
+    });
+}
+
+function sentPayloads() {
+    return (fetch as ReturnType<typeof vi.fn>).mock.calls.map(([, request]) =>
+        JSON.parse(request.body),
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    getInstance()?.destroy();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response()));
+    localStorage.clear();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+});
+
+afterEach(() => {
+    app?.unmount();
+    app = null;
+    container.remove();
+    getInstance()?.destroy();
+    vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Plugin
+// ---------------------------------------------------------------------------
+
+describe('LwsAnalytics plugin', () => {
+    it('initializes the tracker', () => {
+        mount({ render: () => null });
+
+        expect(isReady()).toBe(true);
+        expect(sentPayloads().map((payload) => payload.type)).toEqual([
+            'page_view',
+        ]);
+    });
+
+    it('destroys the tracker when the app is unmounted', () => {
+        mount({ render: () => null });
+
+        app!.unmount();
+        app = null;
+
+        expect(isReady()).toBe(false);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// v-lwsa-event
+// ---------------------------------------------------------------------------
+
+describe('v-lwsa-event', () => {
+    it('tracks clicks with the event name', () => {
+        mount(
+            button(() => 'signup'),
+            {
+                siteId: 'test-site',
+                trackPageViewOnInit: false,
+            },
+        );
+
+        container.querySelector('button')!.click();
+
+        expect(sentPayloads()).toEqual([
+            expect.objectContaining({ type: 'custom', name: 'signup' }),
+        ]);
+    });
+
+    it('tracks clicks with properties', () => {
+        mount(
+            button(() => ({
+                name: 'upgrade',
+                props: { plan: 'pro', seats: 3 },
+            })),
+            { siteId: 'test-site', trackPageViewOnInit: false },
+        );
+
+        container.querySelector('button')!.click();
+
+        expect(sentPayloads()[0]).toMatchObject({
+            name: 'upgrade',
+            props: { plan: 'pro', seats: 3 },
+        });
+    });
+
+    it('uses the latest value after an update', async () => {
+        const plan = ref('free');
+        mount(
+            button(() => ({ name: 'upgrade', props: { plan: plan.value } })),
+            { siteId: 'test-site', trackPageViewOnInit: false },
+        );
+
+        plan.value = 'pro';
+        await nextTick();
+        container.querySelector('button')!.click();
+
+        expect(sentPayloads()[0].props).toEqual({ plan: 'pro' });
+    });
+
+    it('stops tracking when the element is unmounted', async () => {
+        const shown = ref(true);
+        const Button = button(() => 'signup');
+        mount(
+            { render: () => (shown.value ? h(Button) : null) },
+            { siteId: 'test-site', trackPageViewOnInit: false },
+        );
+        const element = container.querySelector('button')!;
+
+        shown.value = false;
+        await nextTick();
+        element.click();
+
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
+
+// ---------------------------------------------------------------------------
+// useAnalytics()
+// ---------------------------------------------------------------------------
+
+describe('useAnalytics()', () => {
+    it('returns the installed tracker', () => {
+        let analytics: unknown = null;
+        mount({
+            setup() {
+                analytics = useAnalytics();
+                return () => null;
+            },
+        });
+
+        expect(analytics).toBe(getInstance());
+    });
+
+    it('warns when the plugin is not installed', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        app = createApp({
+            setup() {
+                expect(useAnalytics()).toBeNull();
+                return () => null;
+            },
+        });
+
+        app.mount(container);
+
+        expect(spy).toHaveBeenCalledWith(
+            expect.stringContaining('Not initialized'),
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Vue Router
+// ---------------------------------------------------------------------------
+
+describe('LwsAnalytics plugin — router', () => {
+    let router: Router;
+
+    function pageViews() {
+        return sentPayloads()
+            .filter((payload) => payload.type === 'page_view')
+            .map(({ path, title }) => ({ path, title }));
+    }
+
+    beforeEach(() => {
+        router = createRouter({
+            history: createMemoryHistory(),
+            routes: [
+                { path: '/', name: 'home', component: { render: () => null } },
+                {
+                    path: '/users/:id',
+                    name: 'user',
+                    component: { render: () => null },
+                },
+                {
+                    path: '/admin',
+                    component: { render: () => null },
+                    beforeEnter: () => false,
+                },
+            ],
+        });
+    });
+
+    it('tracks the initial navigation with the route name and path', async () => {
+        mount({ render: () => null }, { siteId: 'test-site', router });
+
+        await router.isReady();
+
+        expect(pageViews()).toEqual([{ path: '/', title: 'home' }]);
+    });
+
+    it('tracks a page view for each navigation', async () => {
+        mount({ render: () => null }, { siteId: 'test-site', router });
+        await router.isReady();
+
+        await router.push('/users/42?tab=posts');
+
+        expect(pageViews()[1]).toEqual({ path: '/users/42', title: 'user' });
+        expect(sentPayloads()[1].url).toContain('/users/42?tab=posts');
+    });
+
+    it('includes the router base in the path', async () => {
+        history.replaceState(null, '', '/app/');
+        router = createRouter({
+            history: createWebHistory('/app/'),
+            routes: [
+                { path: '/', component: { render: () => null } },
+                { path: '/settings', component: { render: () => null } },
+            ],
+        });
+        mount({ render: () => null }, { siteId: 'test-site', router });
+        await router.isReady();
+
+        await router.push('/settings');
+        history.replaceState(null, '', '/');
+
+        expect(sentPayloads()[1]).toMatchObject({
+            url: 'http://localhost:3000/app/settings',
+            path: '/app/settings',
+        });
+    });
+
+    it('reports the route as the path with hash history', async () => {
+        router = createRouter({
+            history: createWebHashHistory(),
+            routes: [
+                { path: '/', component: { render: () => null } },
+                { path: '/settings', component: { render: () => null } },
+            ],
+        });
+        mount({ render: () => null }, { siteId: 'test-site', router });
+        await router.isReady();
+
+        await router.push('/settings');
+        history.replaceState(null, '', '/');
+
+        expect(sentPayloads()[1].path).toBe('/settings');
+    });
+
+    it('sends page_leave for the previous route on navigation', async () => {
+        router = createRouter({
+            history: createWebHistory(),
+            routes: [
+                { path: '/', component: { render: () => null } },
+                { path: '/settings', component: { render: () => null } },
+            ],
+        });
+        mount(
+            { render: () => null },
+            {
+                siteId: 'test-site',
+                router,
+                plugins: [createEngagementPlugin()],
+            },
+        );
+        await router.isReady();
+
+        await router.push('/settings');
+        history.replaceState(null, '', '/');
+
+        expect(sentPayloads().map(({ type, path }) => [type, path])).toEqual([
+            ['page_view', '/'],
+            ['page_leave', '/'],
+            ['page_view', '/settings'],
+        ]);
+    });
+
+    it('does not track failed navigations', async () => {
+        mount({ render: () => null }, { siteId: 'test-site', router });
+        await router.isReady();
+
+        await router.push('/admin');
+
+        expect(pageViews()).toHaveLength(1);
+    });
+
+    it('does not track history changes outside the router', async () => {
+        mount({ render: () => null }, { siteId: 'test-site', router });
+        await router.isReady();
+
+        history.pushState(null, '', '/elsewhere');
+        history.replaceState(null, '', '/');
+
+        expect(pageViews()).toHaveLength(1);
+    });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createWebVitalsCollector } from '../web-vitals';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type ObserverCallback = (list: {
+    getEntries: () => PerformanceEntry[];
+}) => void;
+
+const observers = new Map<string, ObserverCallback>();
+
+class FakePerformanceObserver {
+    static supportedEntryTypes = [
+        'paint',
+        'largest-contentful-paint',
+        'layout-shift',
+        'event',
+        'first-input',
+    ];
+
+    constructor(private callback: ObserverCallback) {}
+
+    observe(init: { type: string }) {
+        observers.set(init.type, this.callback);
+    }
+
+    disconnect() {
+        for (const [type, callback] of observers) {
+            if (callback === this.callback) {
+                observers.delete(type);
+            }
+        }
+    }
+}
+
+function emit(type: string, entries: Record<string, unknown>[]) {
+    observers.get(type)?.({
+        getEntries: () => entries as unknown as PerformanceEntry[],
+    });
+}
+
+function createCollector() {
+    const onReport = vi.fn();
+    const collector = createWebVitalsCollector({
+        onReport,
+        getPath: () => window.location.pathname,
+    });
+    collector.start();
+    return { collector, onReport };
+}
+
+// ---------------------------------------------------------------------------
+// Setup / Teardown
+// ---------------------------------------------------------------------------
+
+beforeEach(() => {
+    observers.clear();
+    vi.stubGlobal('PerformanceObserver', FakePerformanceObserver);
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+        { responseStart: 120.4 } as PerformanceNavigationTiming,
+    ]);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+describe('web vitals', () => {
+    it('collects load metrics', () => {
+        const { collector, onReport } = createCollector();
+
+        emit('paint', [{ name: 'first-contentful-paint', startTime: 800.2 }]);
+        emit('largest-contentful-paint', [
+            { startTime: 1200 },
+            { startTime: 1850.7 },
+        ]);
+        collector.flush();
+
+        expect(onReport).toHaveBeenCalledWith(
+            {
+                url: window.location.href,
+                path: window.location.pathname,
+                metrics: { ttfb: 120, fcp: 800, lcp: 1851 },
+            },
+            false,
+        );
+        collector.stop();
+    });
+
+    it('reports the largest CLS session window', () => {
+        const { collector, onReport } = createCollector();
+
+        emit('layout-shift', [
+            { startTime: 100, value: 0.05, hadRecentInput: false },
+            { startTime: 600, value: 0.05, hadRecentInput: false },
+            // New window after a gap of more than 1s
+            { startTime: 3000, value: 0.08, hadRecentInput: false },
+            // Shifts right after input are ignored
+            { startTime: 3100, value: 0.5, hadRecentInput: true },
+        ]);
+        collector.flush();
+
+        expect(onReport.mock.calls[0][0].metrics.cls).toBe(0.1);
+        collector.stop();
+    });
+
+    it('reports the slowest interaction as INP', () => {
+        const { collector, onReport } = createCollector();
+
+        emit('event', [
+            { interactionId: 1, duration: 80 },
+            { interactionId: 1, duration: 120 },
+            { interactionId: 2, duration: 200 },
+            { interactionId: 0, duration: 900 },
+        ]);
+        collector.flush();
+
+        expect(onReport.mock.calls[0][0].metrics.inp).toBe(200);
+        collector.stop();
+    });
+
+    it('reports once per page lifecycle', () => {
+        const { collector, onReport } = createCollector();
+
+        emit('paint', [{ name: 'first-contentful-paint', startTime: 800 }]);
+        window.dispatchEvent(new Event('pagehide'));
+        window.dispatchEvent(new Event('pagehide'));
+        collector.flush();
+
+        expect(onReport).toHaveBeenCalledOnce();
+        expect(onReport.mock.calls[0][1]).toBe(true);
+        collector.stop();
+    });
+
+    it('keeps measuring after the tab was hidden', () => {
+        const { collector, onReport } = createCollector();
+        emit('layout-shift', [
+            { startTime: 1000, value: 0.05, hadRecentInput: false },
+        ]);
+
+        Object.defineProperty(document, 'visibilityState', {
+            value: 'hidden',
+            configurable: true,
+        });
+        document.dispatchEvent(new Event('visibilitychange'));
+        Object.defineProperty(document, 'visibilityState', {
+            value: 'visible',
+            configurable: true,
+        });
+        document.dispatchEvent(new Event('visibilitychange'));
+        emit('layout-shift', [
+            { startTime: 1200, value: 0.1, hadRecentInput: false },
+        ]);
+        window.dispatchEvent(new Event('pagehide'));
+
+        expect(onReport).toHaveBeenCalledOnce();
+        expect(onReport.mock.calls[0][0].metrics.cls).toBe(0.15);
+        collector.stop();
+    });
+
+    it('only collects CLS and INP after an SPA route change', () => {
+        const { collector, onReport } = createCollector();
+        collector.flush();
+        collector.reset();
+
+        emit('paint', [{ name: 'first-contentful-paint', startTime: 800 }]);
+        emit('layout-shift', [
+            { startTime: 5000, value: 0.02, hadRecentInput: false },
+        ]);
+        emit('event', [{ interactionId: 3, duration: 64 }]);
+        collector.flush();
+
+        expect(onReport).toHaveBeenCalledTimes(2);
+        expect(onReport.mock.calls[1][0].metrics).toEqual({
+            cls: 0.02,
+            inp: 64,
+        });
+        collector.stop();
+    });
+
+    it('does not report when nothing was measured', () => {
+        vi.spyOn(performance, 'getEntriesByType').mockReturnValue([]);
+        const { collector, onReport } = createCollector();
+
+        collector.flush();
+
+        expect(onReport).not.toHaveBeenCalled();
+        collector.stop();
+    });
+
+    it('does nothing when PerformanceObserver is unavailable', () => {
+        vi.stubGlobal('PerformanceObserver', undefined);
+        const { collector } = createCollector();
+
+        expect(observers.size).toBe(0);
+        expect(() => collector.stop()).not.toThrow();
+    });
+
+    it('disconnects observers on stop()', () => {
+        const { collector } = createCollector();
+
+        collector.stop();
+
+        expect(observers.size).toBe(0);
+    });
+});
@@ -0,0 +1,111 @@
+export interface BatcherOptions {
+    /**
+     * Number of payloads that triggers an immediate flush
+     */
+    maxSize: number;
+
+    /**
+     * Time in milliseconds a payload may wait before the batch is flushed
+     */
+    interval: number;
+
+    /**
+     * Deliver a batch. `unloading` is true when the page is being hidden and
+     * the request has to survive the page going away.
+     */
+    send: (payloads: Record<string, unknown>[], unloading: boolean) => void;
+}
+
+export interface Batcher {
+    /**
+     * Add a payload to the current batch
+     */
+    add: (payload: Record<string, unknown>) => void;
+
+    /**
+     * Send all pending payloads now
+     */
+    flush: (unloading?: boolean) => void;
+
+    /**
+     * Drop all pending payloads without sending them
+     * @returns The dropped payloads
+     */
+    clear: () => Record<string, unknown>[];
+
+    /**
+     * Start flushing when the page is hidden
+     */
+    start: () => void;
+
+    /**
+     * Stop listening for page hide and send anything still pending
+     */
+    stop: () => void;
+}
+
+export function createBatcher(options: BatcherOptions): Batcher {
+    let pending: Record<string, unknown>[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    function flush(unloading = false): void {
+        if (flushTimer) {
+            clearTimeout(flushTimer);
+            flushTimer = null;
+        }
+        if (pending.length === 0) return;
+
+        const payloads = pending;
+        pending = [];
+        options.send(payloads, unloading);
+    }
+
+    function add(payload: Record<string, unknown>): void {
+        pending.push(payload);
+
+        if (pending.length >= options.maxSize) {
+            flush();
+        } else if (!flushTimer) {
+            flushTimer = setTimeout(() => flush(), options.interval);
+        }
+    }
+
+    function handleVisibilityChange(): void {
+        if (document.visibilityState === 'hidden') {
+            flush(true);
+        }
+    }
+
+    function handlePageHide(): void {
+        flush(true);
+    }
+
+    return {
+        add,
+        flush,
+        clear: () => {
+            if (flushTimer) {
+                clearTimeout(flushTimer);
+                flushTimer = null;
+            }
+            const dropped = pending;
+            pending = [];
+            return dropped;
+        },
+        start: () => {
+            document.addEventListener(
+                'visibilitychange',
+                handleVisibilityChange,
+            );
+            window.addEventListener('pagehide', handlePageHide);
+        },
+        stop: () => {
+            document.removeEventListener(
+                'visibilitychange',
+                handleVisibilityChange,
+            );
+            window.removeEventListener('pagehide', handlePageHide);
+            flush();
+        },
+    };
+}
@@ -0,0 +1,354 @@
+import type { LwsAnalyticsPlugin } from './plugins';
+import { readStorage, removeStorage, writeStorage } from './utils';
+
+/**
+ * Where a visit came from:
+ * - `direct`: no referrer
+ * - `internal`: a referrer on the same host
+ * - `search`: a search engine
+ * - `social`: a social network
+ * - `referral`: any other site
+ */
+export type ReferrerType =
+    | 'direct'
+    | 'internal'
+    | 'search'
+    | 'social'
+    | 'referral';
+
+export interface CampaignTouch {
+    /**
+     * Campaign parameters found on the landing URL, e.g. `utm_source`
+     */
+    params: Record<string, string>;
+
+    /**
+     * Ad click IDs found on the landing URL, e.g. `gclid`
+     */
+    clickIds: Record<string, string>;
+
+    referrerType: ReferrerType;
+    referrerHost: string | null;
+    landingPath: string;
+    timestamp: number;
+}
+
+export interface Attribution {
+    firstTouch: CampaignTouch;
+    lastTouch: CampaignTouch;
+}
+
+export interface CampaignTrackerOptions {
+    /**
+     * localStorage key the attribution is persisted under
+     */
+    storageKey: string;
+
+    /**
+     * Query parameters that describe a campaign
+     */
+    params: string[];
+
+    /**
+     * Query parameters that carry ad click IDs
+     */
+    clickIdParams: string[];
+
+    /**
+     * Time in milliseconds a touch is attributed to, older touches are
+     * discarded
+     */
+    attributionWindow: number;
+
+    /**
+     * Whether the attribution may be written to localStorage right now. When
+     * false it is kept in memory only.
+     */
+    canPersist: () => boolean;
+
+    log: (...args: unknown[]) => void;
+}
+
+export interface CampaignTracker {
+    /**
+     * Record a touch for a landing URL. Visits without campaign parameters
+     * from direct or internal traffic do not replace an earlier touch.
+     */
+    capture: (url: string, referrer: string) => void;
+
+    /**
+     * First- and last-touch attribution within the attribution window
+     */
+    current: () => Attribution | null;
+
+    /**
+     * Write the attribution to storage, e.g. once consent is given
+     */
+    save: () => void;
+
+    /**
+     * Forget the attribution and remove it from storage
+     */
+    clear: () => void;
+}
+
+export interface CampaignPluginOptions {
+    /**
+     * Query parameters that describe a campaign
+     * (default: DEFAULT_CAMPAIGN_PARAMS, the `utm_*` parameters)
+     */
+    params?: string[];
+
+    /**
+     * Query parameters that carry ad click IDs
+     * (default: DEFAULT_CLICK_ID_PARAMS, e.g. `gclid` and `fbclid`)
+     */
+    clickIdParams?: string[];
+
+    /**
+     * Time in milliseconds a campaign touch is attributed to (default: 30 days)
+     */
+    attributionWindow?: number;
+}
+
+export const DEFAULT_CAMPAIGN_PARAMS = [
+    'utm_source',
+    'utm_medium',
+    'utm_campaign',
+    'utm_term',
+    'utm_content',
+    'utm_id',
+];
+
+export const DEFAULT_CLICK_ID_PARAMS = [
+    'gclid',
+    'gbraid',
+    'wbraid',
+    'dclid',
+    'fbclid',
+    'msclkid',
+    'ttclid',
+    'twclid',
+    'li_fat_id',
+];
+
+const STORAGE_KEY = 'lws_analytics_campaign';
+
+const SEARCH_ENGINES = [
+    'google.',
+    'bing.com',
+    'yahoo.',
+    'duckduckgo.com',
+    'baidu.com',
+    'yandex.',
+    'ecosia.org',
+    'qwant.com',
+    'startpage.com',
+    'naver.com',
+];
+
+const SOCIAL_NETWORKS = [
+    'facebook.com',
+    'instagram.com',
+    'linkedin.com',
+    'lnkd.in',
+    'twitter.com',
+    'x.com',
+    't.co',
+    'reddit.com',
+    'pinterest.',
+    'youtube.com',
+    'tiktok.com',
+    'threads.net',
+    'bsky.app',
+];
+
+function matchesHost(host: string, patterns: string[]): boolean {
+    return patterns.some((pattern) =>
+        pattern.endsWith('.')
+            ? host.startsWith(pattern) || host.includes(`.${pattern}`)
+            : host === pattern || host.endsWith(`.${pattern}`),
+    );
+}
+
+export function classifyReferrer(
+    referrer: string,
+    currentHost: string,
+): { type: ReferrerType; host: string | null } {
+    let host: string;
+    try {
+        host = new URL(referrer).hostname.toLowerCase();
+    } catch {
+        return { type: 'direct', host: null };
+    }
+
+    if (host === currentHost.toLowerCase()) {
+        return { type: 'internal', host };
+    }
+    if (matchesHost(host, SEARCH_ENGINES)) {
+        return { type: 'search', host };
+    }
+    if (matchesHost(host, SOCIAL_NETWORKS)) {
+        return { type: 'social', host };
+    }
+    return { type: 'referral', host };
+}
+
+function pickParams(
+    searchParams: URLSearchParams,
+    names: string[],
+): Record<string, string> {
+    const result: Record<string, string> = {};
+    names.forEach((name) => {
+        const value = searchParams.get(name);
+        if (value) {
+            result[name] = value;
+        }
+    });
+    return result;
+}
+
+export function createCampaignTracker(
+    options: CampaignTrackerOptions,
+): CampaignTracker {
+    let attribution: Attribution | null = options.canPersist()
+        ? readStorage<Attribution>(options.storageKey)
+        : null;
+
+    function save(): void {
+        if (attribution && options.canPersist()) {
+            writeStorage(options.storageKey, attribution);
+        }
+    }
+
+    function isExpired(touch: CampaignTouch): boolean {
+        return Date.now() - touch.timestamp > options.attributionWindow;
+    }
+
+    function current(): Attribution | null {
+        if (!attribution) return null;
+
+        if (isExpired(attribution.lastTouch)) {
+            options.log('Campaign attribution expired');
+            attribution = null;
+            removeStorage(options.storageKey);
+            return null;
+        }
+        // Fall back to the most recent touch still inside the window
+        if (isExpired(attribution.firstTouch)) {
+            attribution = { ...attribution, firstTouch: attribution.lastTouch };
+            save();
+        }
+        return attribution;
+    }
+
+    return {
+        capture: (url, referrer) => {
+            let parsed: URL;
+            try {
+                parsed = new URL(url);
+            } catch {
+                return;
+            }
+
+            const { type, host } = classifyReferrer(referrer, parsed.hostname);
+            const touch: CampaignTouch = {
+                params: pickParams(parsed.searchParams, options.params),
+                clickIds: pickParams(
+                    parsed.searchParams,
+                    options.clickIdParams,
+                ),
+                referrerType: type,
+                referrerHost: host,
+                landingPath: parsed.pathname,
+                timestamp: Date.now(),
+            };
+
+            const existing = current();
+            const isCampaign =
+                Object.keys(touch.params).length > 0 ||
+                Object.keys(touch.clickIds).length > 0;
+            if (
+                existing &&
+                !isCampaign &&
+                (type === 'direct' || type === 'internal')
+            ) {
+                return;
+            }
+            // An internal referrer without an earlier touch is a new visit
+            if (type === 'internal' && !isCampaign) {
+                touch.referrerType = 'direct';
+                touch.referrerHost = null;
+            }
+
+            attribution = {
+                firstTouch: existing?.firstTouch ?? touch,
+                lastTouch: touch,
+            };
+            save();
+            options.log('Campaign touch recorded:', touch);
+        },
+        current,
+        save,
+        clear: () => {
+            attribution = null;
+            removeStorage(options.storageKey);
+        },
+    };
+}
+
+/**
+ * Captures UTM parameters, ad click IDs and the referrer type on landing and
+ * attaches first- and last-touch attribution to every event
+ */
+export function createCampaignPlugin(
+    options: CampaignPluginOptions = {},
+): LwsAnalyticsPlugin {
+    let tracker: CampaignTracker | null = null;
+    let sanitizePath: (path: string) => string = (path) => path;
+
+    function serializeTouch(touch: CampaignTouch): Record<string, unknown> {
+        return {
+            params: touch.params,
+            click_ids: touch.clickIds,
+            referrer_type: touch.referrerType,
+            referrer_host: touch.referrerHost,
+            landing_path: sanitizePath(touch.landingPath),
+            timestamp: new Date(touch.timestamp).toISOString(),
+        };
+    }
+
+    return {
+        name: 'campaigns',
+        setup: (context) => {
+            sanitizePath = context.sanitizePath;
+            tracker = createCampaignTracker({
+                storageKey: `${STORAGE_KEY}:${context.config.siteId}`,
+                params: options.params ?? DEFAULT_CAMPAIGN_PARAMS,
+                clickIdParams: options.clickIdParams ?? DEFAULT_CLICK_ID_PARAMS,
+                attributionWindow:
+                    options.attributionWindow ?? 30 * 24 * 60 * 60 * 1000,
+                canPersist: context.canPersist,
+                log: context.log,
+            });
+            tracker.capture(window.location.href, document.referrer);
+        },
+        beforeSend: (payload) => {
+            const attribution = tracker?.current();
+            if (attribution) {
+                payload.campaign = {
+                    first_touch: serializeTouch(attribution.firstTouch),
+                    last_touch: serializeTouch(attribution.lastTouch),
+                };
+            }
+        },
+        // SPA navigations keep the referrer of the landing page
+        routeChange: () => tracker?.capture(window.location.href, ''),
+        consentChange: (granted) =>
+            granted ? tracker?.save() : tracker?.clear(),
+        reset: () => tracker?.clear(),
+        teardown: () => {
+            tracker = null;
+        },
+    };
+}
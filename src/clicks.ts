@@ -0,0 +1,58 @@
+import type { LwsAnalyticsPlugin, PluginContext } from './plugins';
+import type { EventProperties } from './types';
+
+const EVENT_ATTRIBUTE = 'data-lwsa-event';
+const PROP_ATTRIBUTE_PREFIX = 'data-lwsa-prop-';
+
+/**
+ * Properties from the `data-lwsa-prop-*` attributes of an element
+ */
+export function getElementProperties(
+    element: Element,
+): EventProperties | undefined {
+    const props: EventProperties = {};
+    let found = false;
+
+    for (const attribute of Array.from(element.attributes)) {
+        if (attribute.name.startsWith(PROP_ATTRIBUTE_PREFIX)) {
+            props[attribute.name.slice(PROP_ATTRIBUTE_PREFIX.length)] =
+                attribute.value;
+            found = true;
+        }
+    }
+
+    return found ? props : undefined;
+}
+
+/**
+ * Tracks clicks on elements with `data-lwsa-event`, with properties taken
+ * from their `data-lwsa-prop-*` attributes
+ */
+export function createClickTrackingPlugin(): LwsAnalyticsPlugin {
+    let context: PluginContext | null = null;
+
+    function handleClick(event: MouseEvent): void {
+        const target = event.target as Element | null;
+        const element = target?.closest(`[${EVENT_ATTRIBUTE}]`);
+        if (!element || !context) return;
+
+        const eventName = element.getAttribute(EVENT_ATTRIBUTE);
+        if (eventName) {
+            context.log('Click detected on element:', element);
+            context.log('Event name:', eventName);
+            context.trackEvent(eventName, getElementProperties(element));
+        }
+    }
+
+    return {
+        name: 'click-tracking',
+        setup: (pluginContext) => {
+            context = pluginContext;
+            document.addEventListener('click', handleClick);
+        },
+        teardown: () => {
+            document.removeEventListener('click', handleClick);
+            context = null;
+        },
+    };
+}
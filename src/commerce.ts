@@ -0,0 +1,371 @@
+import type { LwsAnalyticsPlugin, PluginContext } from './plugins';
+import { readStorage, removeStorage, writeStorage } from './utils';
+
+export interface Product {
+    /**
+     * Your SKU or product ID (required)
+     */
+    id: string;
+
+    name?: string;
+    category?: string;
+    brand?: string;
+    variant?: string;
+
+    /**
+     * Unit price
+     */
+    price?: number;
+
+    quantity?: number;
+
+    /**
+     * ISO 4217 currency code of `price`, e.g. `EUR`
+     */
+    currency?: string;
+}
+
+export interface CheckoutStep {
+    /**
+     * Position of the step in the checkout, starting at 1
+     */
+    step: number;
+
+    /**
+     * Name of the step, e.g. `shipping`
+     */
+    name?: string;
+
+    /**
+     * Option chosen in the step, e.g. the shipping method
+     */
+    option?: string;
+
+    items?: Product[];
+}
+
+export interface Purchase {
+    /**
+     * Your order ID, purchases with an ID that was already tracked are
+     * ignored (required)
+     */
+    orderId: string;
+
+    /**
+     * Total value of the order (required)
+     */
+    revenue: number;
+
+    /**
+     * ISO 4217 currency code, e.g. `EUR` (required)
+     */
+    currency: string;
+
+    items: Product[];
+
+    tax?: number;
+    shipping?: number;
+    coupon?: string;
+}
+
+export interface OrderRegistryOptions {
+    /**
+     * localStorage key tracked order IDs are persisted under
+     */
+    storageKey: string;
+
+    /**
+     * Number of order IDs to remember, oldest are forgotten first
+     */
+    maxSize: number;
+
+    /**
+     * Whether order IDs may be written to localStorage right now. When false
+     * they are kept in memory only.
+     */
+    canPersist: () => boolean;
+}
+
+export interface OrderRegistry {
+    /**
+     * Remember an order ID, returning false when it was already tracked
+     */
+    add: (orderId: string) => boolean;
+
+    /**
+     * Write order IDs tracked in memory to storage, e.g. once consent is given
+     */
+    save: () => void;
+
+    /**
+     * Forget all order IDs and remove them from storage
+     */
+    clear: () => void;
+}
+
+export interface CommercePlugin extends LwsAnalyticsPlugin {
+    /**
+     * Track a visitor viewing a product
+     * @param product - The product, `id` is required
+     */
+    trackProductView: (product: Product) => void;
+
+    /**
+     * Track a product being added to the cart
+     * @param product - The product with the added `quantity`
+     */
+    trackAddToCart: (product: Product) => void;
+
+    /**
+     * Track a product being removed from the cart
+     * @param product - The product with the removed `quantity`
+     */
+    trackRemoveFromCart: (product: Product) => void;
+
+    /**
+     * Track progress through the checkout
+     * @param step - The step number, with an optional name, option and items
+     */
+    trackCheckoutStep: (step: CheckoutStep) => void;
+
+    /**
+     * Track a completed order. Orders with an ID that was already tracked in
+     * this browser are ignored.
+     * @param purchase - The order with `orderId`, `revenue`, `currency` and `items`
+     */
+    trackPurchase: (purchase: Purchase) => void;
+}
+
+const STORAGE_KEY = 'lws_analytics_orders';
+const MAX_TRACKED_ORDERS = 50;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+function isAmount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isText(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Convert a product to its payload format, returning null when it is invalid
+ */
+export function serializeProduct(
+    product: Product,
+    warn: (...args: unknown[]) => void,
+): Record<string, unknown> | null {
+    if (!product || !isText(product.id)) {
+        warn('Product requires an id, dropping it:', product);
+        return null;
+    }
+
+    const item: Record<string, unknown> = { id: product.id };
+    for (const key of [
+        'name',
+        'category',
+        'brand',
+        'variant',
+        'currency',
+    ] as const) {
+        if (isText(product[key])) {
+            item[key] = product[key];
+        }
+    }
+    for (const key of ['price', 'quantity'] as const) {
+        if (product[key] === undefined) continue;
+        if (isAmount(product[key])) {
+            item[key] = product[key];
+        } else {
+            warn(`Dropping product ${key} that is not a number:`, product[key]);
+        }
+    }
+    return item;
+}
+
+export function serializeProducts(
+    products: Product[] | undefined,
+    warn: (...args: unknown[]) => void,
+): Record<string, unknown>[] {
+    if (!Array.isArray(products)) {
+        return [];
+    }
+    return products
+        .map((product) => serializeProduct(product, warn))
+        .filter((item): item is Record<string, unknown> => item !== null);
+}
+
+/**
+ * Convert a purchase to its payload format, returning null when it is invalid
+ */
+export function serializePurchase(
+    purchase: Purchase,
+    warn: (...args: unknown[]) => void,
+): Record<string, unknown> | null {
+    if (!purchase || !isText(purchase.orderId)) {
+        warn('Purchase requires an orderId, dropping it:', purchase);
+        return null;
+    }
+    if (!isAmount(purchase.revenue)) {
+        warn('Purchase revenue must be a number, dropping it:', purchase);
+        return null;
+    }
+    if (
+        !isText(purchase.currency) ||
+        !CURRENCY_PATTERN.test(purchase.currency)
+    ) {
+        warn(
+            'Purchase currency must be an ISO 4217 code, dropping it:',
+            purchase,
+        );
+        return null;
+    }
+
+    return {
+        order_id: purchase.orderId,
+        revenue: purchase.revenue,
+        currency: purchase.currency,
+        ...(isAmount(purchase.tax) && { tax: purchase.tax }),
+        ...(isAmount(purchase.shipping) && { shipping: purchase.shipping }),
+        ...(isText(purchase.coupon) && { coupon: purchase.coupon }),
+        items: serializeProducts(purchase.items, warn),
+    };
+}
+
+export function createOrderRegistry(
+    options: OrderRegistryOptions,
+): OrderRegistry {
+    let orderIds: string[] = options.canPersist()
+        ? (readStorage<string[]>(options.storageKey) ?? [])
+        : [];
+
+    // Another tab may have tracked orders since this page loaded
+    function merge(): void {
+        const stored = readStorage<string[]>(options.storageKey) ?? [];
+        orderIds = Array.from(new Set([...stored, ...orderIds])).slice(
+            -options.maxSize,
+        );
+    }
+
+    function save(): void {
+        if (!options.canPersist()) return;
+
+        merge();
+        writeStorage(options.storageKey, orderIds);
+    }
+
+    return {
+        add: (orderId) => {
+            if (options.canPersist()) {
+                merge();
+            }
+            if (orderIds.includes(orderId)) {
+                return false;
+            }
+
+            orderIds.push(orderId);
+            if (orderIds.length > options.maxSize) {
+                orderIds = orderIds.slice(-options.maxSize);
+            }
+            save();
+            return true;
+        },
+        save,
+        clear: () => {
+            orderIds = [];
+            removeStorage(options.storageKey);
+        },
+    };
+}
+
+/**
+ * Product, cart, checkout and purchase events with a `commerce` field, and
+ * purchases deduplicated by order ID
+ */
+export function createCommercePlugin(): CommercePlugin {
+    let context: PluginContext | null = null;
+    let orders: OrderRegistry | null = null;
+
+    function getContext(): PluginContext | null {
+        if (!context) {
+            console.warn(
+                '[LWS Analytics] Commerce tracking is not registered. Pass the plugin to init() first.',
+            );
+        }
+        return context;
+    }
+
+    function trackProduct(type: string, name: string, product: Product): void {
+        const current = getContext();
+        if (!current) return;
+
+        const item = serializeProduct(product, current.warn);
+        if (item) {
+            current.track(type, name, undefined, {
+                commerce: { items: [item] },
+            });
+        }
+    }
+
+    return {
+        name: 'commerce',
+        setup: (pluginContext) => {
+            context = pluginContext;
+            // Remember tracked order IDs to ignore repeated purchases
+            orders = createOrderRegistry({
+                storageKey: `${STORAGE_KEY}:${pluginContext.config.siteId}`,
+                maxSize: MAX_TRACKED_ORDERS,
+                canPersist: pluginContext.canPersist,
+            });
+        },
+        consentChange: (granted) =>
+            granted ? orders?.save() : orders?.clear(),
+        teardown: () => {
+            context = null;
+            orders = null;
+        },
+        trackProductView: (product) =>
+            trackProduct('product_view', 'Product view', product),
+        trackAddToCart: (product) =>
+            trackProduct('add_to_cart', 'Add to cart', product),
+        trackRemoveFromCart: (product) =>
+            trackProduct('remove_from_cart', 'Remove from cart', product),
+        trackCheckoutStep: (step) => {
+            const current = getContext();
+            if (!current) return;
+
+            if (!step || !Number.isInteger(step.step) || step.step < 1) {
+                current.warn(
+                    'Checkout step requires a step number from 1:',
+                    step,
+                );
+                return;
+            }
+            current.track('checkout_step', 'Checkout step', undefined, {
+                commerce: {
+                    step: step.step,
+                    ...(step.name && { step_name: step.name }),
+                    ...(step.option && { option: step.option }),
+                    items: serializeProducts(step.items, current.warn),
+                },
+            });
+        },
+        trackPurchase: (purchase) => {
+            const current = getContext();
+            if (!current) return;
+
+            const commerce = serializePurchase(purchase, current.warn);
+            if (!commerce) return;
+
+            // Refreshing the thank-you page must not count the revenue twice
+            if (orders && !orders.add(purchase.orderId)) {
+                current.log(
+                    'Purchase already tracked, ignoring order:',
+                    purchase.orderId,
+                );
+                return;
+            }
+            current.track('purchase', 'Purchase', undefined, { commerce });
+        },
+    };
+}
@@ -0,0 +1,79 @@
+export interface ConsentState {
+    /**
+     * Whether the user consented to analytics tracking
+     */
+    analytics: boolean;
+}
+
+/**
+ * Bridges a consent management platform (CMP) to the SDK. The adapter calls
+ * `listener` whenever the user's consent is known or changes, and returns a
+ * function that stops listening.
+ */
+export interface ConsentAdapter {
+    subscribe: (listener: (consent: ConsentState) => void) => () => void;
+}
+
+interface TcfData {
+    gdprApplies?: boolean;
+    eventStatus?: string;
+    listenerId?: number;
+    purpose?: {
+        consents?: Record<string, boolean>;
+    };
+}
+
+type TcfApi = (
+    command: string,
+    version: number,
+    callback: (data: TcfData, success: boolean) => void,
+    parameter?: unknown,
+) => void;
+
+// IAB TCF v2 purposes: 1 = store and access information on a device,
+// 8 = measure content performance
+const TCF_ANALYTICS_PURPOSES = [1, 8];
+
+/**
+ * Consent adapter for CMPs implementing the IAB TCF v2 `__tcfapi` interface
+ */
+export function createTcfConsentAdapter(): ConsentAdapter {
+    return {
+        subscribe: (listener) => {
+            const api = (window as Window & { __tcfapi?: TcfApi }).__tcfapi;
+            if (typeof api !== 'function') {
+                return () => {};
+            }
+
+            let listenerId: number | undefined;
+            api('addEventListener', 2, (data, success) => {
+                if (!success) return;
+                listenerId = data.listenerId;
+
+                if (
+                    data.eventStatus !== 'tcloaded' &&
+                    data.eventStatus !== 'useractioncomplete'
+                ) {
+                    return;
+                }
+                if (data.gdprApplies === false) {
+                    listener({ analytics: true });
+                    return;
+                }
+
+                const consents = data.purpose?.consents ?? {};
+                listener({
+                    analytics: TCF_ANALYTICS_PURPOSES.every(
+                        (purpose) => consents[purpose] === true,
+                    ),
+                });
+            });
+
+            return () => {
+                if (listenerId !== undefined) {
+                    api('removeEventListener', 2, () => {}, listenerId);
+                }
+            };
+        },
+    };
+}
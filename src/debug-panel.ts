@@ -0,0 +1,218 @@
+import type {
+    PayloadInspection,
+    PayloadInspector,
+    PayloadStatus,
+} from './types';
+
+export interface DebugPanelTarget {
+    inspect: (inspector: PayloadInspector) => () => void;
+    setPaused: (paused: boolean) => void;
+}
+
+export interface DebugPanel {
+    /**
+     * Remove the panel and resume sending if it was paused
+     */
+    destroy: () => void;
+}
+
+const HOST_ID = 'lwsa-debug-panel';
+const MAX_ENTRIES = 200;
+const ALL_TYPES = '';
+
+const STATUS_COLORS: Record<PayloadStatus, string> = {
+    sent: '#15803d',
+    failed: '#b91c1c',
+    queued: '#b45309',
+    buffered: '#6d28d9',
+    paused: '#475569',
+    dropped: '#be123c',
+};
+
+const STYLES = `
+:host { all: initial; }
+.panel { position: fixed; right: 16px; bottom: 16px; z-index: 2147483647;
+    width: 420px; max-width: calc(100vw - 32px); max-height: 50vh;
+    display: flex; flex-direction: column; background: #fff; color: #0f172a;
+    border: 1px solid #cbd5e1; border-radius: 8px;
+    box-shadow: 0 8px 24px rgba(15, 23, 42, 0.2);
+    font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace; }
+.header { display: flex; gap: 6px; align-items: center; padding: 8px;
+    border-bottom: 1px solid #e2e8f0; }
+.title { flex: 1; font-weight: 600; }
+button, select { font: inherit; padding: 2px 6px; border: 1px solid #cbd5e1;
+    border-radius: 4px; background: #f8fafc; color: inherit; cursor: pointer; }
+ul { list-style: none; margin: 0; padding: 0; overflow-y: auto; }
+li { padding: 6px 8px; border-bottom: 1px solid #f1f5f9; cursor: pointer; }
+.status { display: inline-block; min-width: 56px; margin-right: 6px;
+    padding: 0 4px; border-radius: 3px; color: #fff; text-align: center; }
+.meta { color: #64748b; }
+pre { margin: 6px 0 0; padding: 6px; overflow-x: auto; background: #f8fafc;
+    white-space: pre-wrap; word-break: break-all; }
+.empty { padding: 12px 8px; color: #64748b; }
+`;
+
+let activePanel: DebugPanel | null = null;
+
+function element<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    className?: string,
+    text?: string,
+): HTMLElementTagNameMap[K] {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+/**
+ * Show an in-page panel listing every payload and its status. Only one
+ * panel is shown at a time.
+ */
+export function createDebugPanel(target: DebugPanelTarget): DebugPanel {
+    if (activePanel) {
+        return activePanel;
+    }
+
+    let entries: PayloadInspection[] = [];
+    let filter = ALL_TYPES;
+    let paused = false;
+    const types = new Set<string>();
+
+    const host = element('div');
+    host.id = HOST_ID;
+    const root = host.attachShadow({ mode: 'open' });
+
+    const panel = element('div', 'panel');
+    const header = element('div', 'header');
+    const typeSelect = element('select');
+    const pauseButton = element('button', undefined, 'Pause');
+    const clearButton = element('button', undefined, 'Clear');
+    const closeButton = element('button', undefined, '×');
+    const list = element('ul');
+
+    typeSelect.setAttribute('aria-label', 'Filter by type');
+    closeButton.setAttribute('aria-label', 'Close');
+    header.append(
+        element('span', 'title', 'LWS Analytics'),
+        typeSelect,
+        pauseButton,
+        clearButton,
+        closeButton,
+    );
+    panel.append(header, list);
+    root.append(element('style', undefined, STYLES), panel);
+
+    function renderTypes(): void {
+        const options = [ALL_TYPES, ...Array.from(types).sort()];
+        typeSelect.replaceChildren(
+            ...options.map((type) => {
+                const option = element(
+                    'option',
+                    undefined,
+                    type || 'All types',
+                );
+                option.value = type;
+                option.selected = type === filter;
+                return option;
+            }),
+        );
+    }
+
+    function renderEntry(entry: PayloadInspection): HTMLLIElement {
+        const item = element('li');
+        const status = element('span', 'status', entry.status);
+        status.style.background = STATUS_COLORS[entry.status];
+
+        const time = new Date(entry.timestamp).toLocaleTimeString();
+        const reason = entry.reason ? ` (${entry.reason})` : '';
+        item.append(
+            status,
+            element(
+                'span',
+                undefined,
+                `${entry.payload.type} · ${entry.payload.name}`,
+            ),
+            element(
+                'div',
+                'meta',
+                `${time} ${entry.payload.path ?? ''}${reason}`,
+            ),
+        );
+
+        let details: HTMLPreElement | null = null;
+        item.addEventListener('click', () => {
+            if (details) {
+                details.remove();
+                details = null;
+                return;
+            }
+            details = element(
+                'pre',
+                undefined,
+                JSON.stringify(entry.payload, null, 2),
+            );
+            item.append(details);
+        });
+        return item;
+    }
+
+    function renderList(): void {
+        const visible = entries.filter(
+            (entry) => filter === ALL_TYPES || entry.payload.type === filter,
+        );
+        list.replaceChildren(
+            ...(visible.length
+                ? visible.map(renderEntry).reverse()
+                : [element('li', 'empty', 'No payloads yet')]),
+        );
+    }
+
+    function handleInspection(entry: PayloadInspection): void {
+        entries.push(entry);
+        if (entries.length > MAX_ENTRIES) {
+            entries = entries.slice(-MAX_ENTRIES);
+        }
+
+        const type = String(entry.payload.type);
+        if (!types.has(type)) {
+            types.add(type);
+            renderTypes();
+        }
+        renderList();
+    }
+
+    typeSelect.addEventListener('change', () => {
+        filter = typeSelect.value;
+        renderList();
+    });
+    pauseButton.addEventListener('click', () => {
+        paused = !paused;
+        pauseButton.textContent = paused ? 'Resume' : 'Pause';
+        target.setPaused(paused);
+    });
+    clearButton.addEventListener('click', () => {
+        entries = [];
+        renderList();
+    });
+
+    const unsubscribe = target.inspect(handleInspection);
+    renderTypes();
+    renderList();
+    document.body.appendChild(host);
+
+    const debugPanel: DebugPanel = {
+        destroy: () => {
+            unsubscribe();
+            if (paused) {
+                target.setPaused(false);
+            }
+            host.remove();
+            activePanel = null;
+        },
+    };
+    closeButton.addEventListener('click', debugPanel.destroy);
+    activePanel = debugPanel;
+
+    return debugPanel;
+}
@@ -0,0 +1,12 @@
+import { createDebugPanel } from './debug-panel';
+
+// Loaded by the standalone script when the page URL contains ?lwsa_debug=1
+(() => {
+    if (!window.LwsAnalytics) {
+        console.warn(
+            '[LWS Analytics] Debug panel loaded before the analytics script was initialized',
+        );
+        return;
+    }
+    createDebugPanel(window.LwsAnalytics);
+})();
@@ -0,0 +1,265 @@
+import type { LwsAnalyticsPlugin, PluginContext } from './plugins';
+
+export interface EngagementMetrics {
+    /**
+     * URL of the page the metrics belong to
+     */
+    url: string;
+
+    /**
+     * Path of the page the metrics belong to
+     */
+    path: string;
+
+    /**
+     * Time in milliseconds the page was visible and the visitor was active
+     */
+    engagementTime: number;
+
+    /**
+     * Highest scroll depth milestone reached, in percent
+     */
+    scrollDepth: number;
+}
+
+export interface EngagementTrackerOptions {
+    /**
+     * Time in milliseconds without input after which the visitor counts as idle
+     */
+    idleTimeout: number;
+
+    /**
+     * Scroll depth percentages to report, e.g. [25, 50, 75, 100]
+     */
+    scrollMilestones: number[];
+
+    /**
+     * Path of the current page, e.g. with the route in hash routing mode
+     */
+    getPath: () => string;
+
+    /**
+     * Called when the page is hidden for good (`pagehide`)
+     */
+    onPageHide: () => void;
+}
+
+export interface EngagementTracker {
+    start: () => void;
+    stop: () => void;
+
+    /**
+     * Metrics for the current page so far
+     */
+    collect: () => EngagementMetrics;
+
+    /**
+     * Start measuring a new page at the current URL
+     */
+    reset: () => void;
+}
+
+export interface EngagementPluginOptions {
+    /**
+     * Time in milliseconds without input after which engagement pauses
+     * (default: 30000)
+     */
+    idleTimeout?: number;
+
+    /**
+     * Scroll depth percentages reported in page_leave
+     * (default: [25, 50, 75, 100])
+     */
+    scrollMilestones?: number[];
+}
+
+const ACTIVITY_EVENTS = [
+    'mousemove',
+    'mousedown',
+    'keydown',
+    'touchstart',
+    'wheel',
+] as const;
+
+export function createEngagementTracker(
+    options: EngagementTrackerOptions,
+): EngagementTracker {
+    const milestones = [...options.scrollMilestones].sort((a, b) => a - b);
+
+    let url = window.location.href;
+    let path = options.getPath();
+    let accumulated = 0;
+    let activeSince: number | null = null;
+    let maxScrollPercent = 0;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    function pause(): void {
+        if (activeSince !== null) {
+            accumulated += Date.now() - activeSince;
+            activeSince = null;
+        }
+    }
+
+    function clearIdleTimer(): void {
+        if (idleTimer) {
+            clearTimeout(idleTimer);
+            idleTimer = null;
+        }
+    }
+
+    function handleActivity(): void {
+        if (document.visibilityState === 'hidden') return;
+
+        if (activeSince === null) {
+            activeSince = Date.now();
+        }
+        clearIdleTimer();
+        idleTimer = setTimeout(() => {
+            idleTimer = null;
+            pause();
+        }, options.idleTimeout);
+    }
+
+    function measureScroll(): void {
+        const root = document.documentElement;
+        const scrollable = root.scrollHeight;
+        if (scrollable <= 0) return;
+
+        const percent = Math.min(
+            100,
+            ((window.scrollY + window.innerHeight) / scrollable) * 100,
+        );
+        maxScrollPercent = Math.max(maxScrollPercent, percent);
+    }
+
+    function handleScroll(): void {
+        measureScroll();
+        handleActivity();
+    }
+
+    function handleVisibilityChange(): void {
+        if (document.visibilityState === 'hidden') {
+            clearIdleTimer();
+            pause();
+        } else {
+            handleActivity();
+        }
+    }
+
+    function handlePageHide(): void {
+        pause();
+        options.onPageHide();
+    }
+
+    function reset(): void {
+        url = window.location.href;
+        path = options.getPath();
+        accumulated = 0;
+        maxScrollPercent = 0;
+        activeSince = null;
+        measureScroll();
+        handleActivity();
+    }
+
+    return {
+        start: () => {
+            ACTIVITY_EVENTS.forEach((type) =>
+                document.addEventListener(type, handleActivity, {
+                    passive: true,
+                }),
+            );
+            window.addEventListener('scroll', handleScroll, { passive: true });
+            document.addEventListener(
+                'visibilitychange',
+                handleVisibilityChange,
+            );
+            window.addEventListener('pagehide', handlePageHide);
+            reset();
+        },
+        stop: () => {
+            ACTIVITY_EVENTS.forEach((type) =>
+                document.removeEventListener(type, handleActivity),
+            );
+            window.removeEventListener('scroll', handleScroll);
+            document.removeEventListener(
+                'visibilitychange',
+                handleVisibilityChange,
+            );
+            window.removeEventListener('pagehide', handlePageHide);
+            clearIdleTimer();
+            pause();
+        },
+        collect: () => {
+            const running = activeSince !== null ? Date.now() - activeSince : 0;
+            const reached = milestones.filter(
+                (milestone) => maxScrollPercent >= milestone,
+            );
+
+            return {
+                url,
+                path,
+                engagementTime: accumulated + running,
+                scrollDepth: reached.length ? reached[reached.length - 1] : 0,
+            };
+        },
+        reset,
+    };
+}
+
+/**
+ * Measures engaged time and scroll depth, sent as a `page_leave` event when the
+ * page is hidden or the SPA route changes
+ */
+export function createEngagementPlugin(
+    options: EngagementPluginOptions = {},
+): LwsAnalyticsPlugin {
+    let context: PluginContext | null = null;
+    let tracker: EngagementTracker | null = null;
+
+    function trackPageLeave(): void {
+        if (!context || !tracker) return;
+
+        const metrics = tracker.collect();
+        context.log('Page leave:', metrics);
+        context.track(
+            'page_leave',
+            'Page leave',
+            {
+                engagement_time_ms: metrics.engagementTime,
+                scroll_depth: metrics.scrollDepth,
+            },
+            // Attribute to the page being left, the URL may already have changed
+            { url: metrics.url, path: metrics.path },
+        );
+    }
+
+    function handlePageHide(): void {
+        trackPageLeave();
+        // The page is going away, do not leave page_leave waiting in a batch
+        context?.flush();
+        tracker?.reset();
+    }
+
+    return {
+        name: 'engagement',
+        setup: (pluginContext) => {
+            context = pluginContext;
+            tracker = createEngagementTracker({
+                idleTimeout: options.idleTimeout ?? 30000,
+                scrollMilestones: options.scrollMilestones ?? [25, 50, 75, 100],
+                onPageHide: handlePageHide,
+                getPath: pluginContext.getPath,
+            });
+            tracker.start();
+        },
+        routeChange: () => {
+            trackPageLeave();
+            tracker?.reset();
+        },
+        teardown: () => {
+            tracker?.stop();
+            tracker = null;
+            context = null;
+        },
+    };
+}
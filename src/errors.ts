@@ -0,0 +1,217 @@
+import type { LwsAnalyticsPlugin } from './plugins';
+import type { EventProperties } from './types';
+
+export interface NormalizedError {
+    /**
+     * Where the error came from
+     */
+    source: 'error' | 'unhandledrejection' | 'manual';
+
+    /**
+     * Error class name such as `TypeError`, when known
+     */
+    name: string | null;
+
+    message: string;
+    stack: string | null;
+    filename: string | null;
+    line: number | null;
+    column: number | null;
+}
+
+export interface ErrorTrackerOptions {
+    /**
+     * Maximum number of errors reported per minute
+     */
+    rateLimit: number;
+
+    /**
+     * Called for every error that passes deduplication and rate limiting
+     */
+    onError: (error: NormalizedError, context?: unknown) => void;
+
+    log: (...args: unknown[]) => void;
+}
+
+export interface ErrorTracker {
+    /**
+     * Listen for uncaught errors and unhandled promise rejections
+     */
+    start: () => void;
+    stop: () => void;
+
+    /**
+     * Report an error manually
+     */
+    capture: (error: unknown, context?: unknown) => void;
+}
+
+export interface ErrorTrackingPluginOptions {
+    /**
+     * Report uncaught errors and unhandled promise rejections. Without it,
+     * only errors passed to `trackError()` are sent. (default: true)
+     */
+    captureUncaught?: boolean;
+
+    /**
+     * Maximum number of errors reported per minute (default: 10)
+     */
+    rateLimit?: number;
+}
+
+export interface ErrorTrackingPlugin extends LwsAnalyticsPlugin {
+    /**
+     * Report an error
+     * @param error - The error or rejection reason
+     * @param context - Optional properties describing where the error happened
+     */
+    trackError: (error: unknown, context?: EventProperties) => void;
+}
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_STACK_LENGTH = 2000;
+const MAX_FINGERPRINTS = 100;
+const RATE_LIMIT_WINDOW = 60 * 1000;
+
+function truncate(value: string, length: number): string {
+    return value.length > length ? value.slice(0, length) : value;
+}
+
+function stringify(value: unknown): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+export function normalizeError(
+    error: unknown,
+    source: NormalizedError['source'],
+    location: { filename?: string; line?: number; column?: number } = {},
+): NormalizedError {
+    const isError = error instanceof Error;
+    const message = isError ? error.message || error.name : stringify(error);
+
+    return {
+        source,
+        name: isError ? error.name : null,
+        message: truncate(message || 'Unknown error', MAX_MESSAGE_LENGTH),
+        stack:
+            isError && error.stack
+                ? truncate(error.stack, MAX_STACK_LENGTH)
+                : null,
+        filename: location.filename || null,
+        line: location.line || null,
+        column: location.column || null,
+    };
+}
+
+export function createErrorTracker(options: ErrorTrackerOptions): ErrorTracker {
+    const fingerprints = new Set<string>();
+    let reportedAt: number[] = [];
+
+    function report(error: NormalizedError, context?: unknown): void {
+        const fingerprint = [
+            error.name,
+            error.message,
+            error.filename,
+            error.line,
+            error.column,
+        ].join('|');
+        if (fingerprints.has(fingerprint)) {
+            options.log('Skipping duplicate error:', error.message);
+            return;
+        }
+
+        const now = Date.now();
+        reportedAt = reportedAt.filter(
+            (timestamp) => now - timestamp < RATE_LIMIT_WINDOW,
+        );
+        if (reportedAt.length >= options.rateLimit) {
+            options.log('Error rate limit reached, dropping:', error.message);
+            return;
+        }
+
+        if (fingerprints.size >= MAX_FINGERPRINTS) {
+            fingerprints.clear();
+        }
+        fingerprints.add(fingerprint);
+        reportedAt.push(now);
+        options.onError(error, context);
+    }
+
+    function handleError(event: ErrorEvent): void {
+        report(
+            normalizeError(event.error ?? event.message, 'error', {
+                filename: event.filename,
+                line: event.lineno,
+                column: event.colno,
+            }),
+        );
+    }
+
+    function handleRejection(event: PromiseRejectionEvent): void {
+        report(normalizeError(event.reason, 'unhandledrejection'));
+    }
+
+    return {
+        start: () => {
+            window.addEventListener('error', handleError);
+            window.addEventListener('unhandledrejection', handleRejection);
+        },
+        stop: () => {
+            window.removeEventListener('error', handleError);
+            window.removeEventListener('unhandledrejection', handleRejection);
+        },
+        capture: (error, context) => {
+            report(normalizeError(error, 'manual'), context);
+        },
+    };
+}
+
+/**
+ * Sends errors as `error` events, with the normalized error in the payload's
+ * `error` field
+ */
+export function createErrorTrackingPlugin(
+    options: ErrorTrackingPluginOptions = {},
+): ErrorTrackingPlugin {
+    let tracker: ErrorTracker | null = null;
+
+    return {
+        name: 'error-tracking',
+        setup: (context) => {
+            tracker = createErrorTracker({
+                rateLimit: options.rateLimit ?? 10,
+                onError: (error, errorContext) =>
+                    context.track(
+                        'error',
+                        error.message,
+                        errorContext as EventProperties | undefined,
+                        { error },
+                    ),
+                log: context.log,
+            });
+            if (options.captureUncaught ?? true) {
+                tracker.start();
+            }
+        },
+        teardown: () => {
+            tracker?.stop();
+            tracker = null;
+        },
+        trackError: (error, context) => {
+            if (!tracker) {
+                console.warn(
+                    '[LWS Analytics] Error tracking is not registered. Pass the plugin to init() first.',
+                );
+                return;
+            }
+            tracker.capture(error, context);
+        },
+    };
+}
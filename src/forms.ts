@@ -0,0 +1,236 @@
+import type { LwsAnalyticsPlugin } from './plugins';
+
+export type FormEventType = 'form_start' | 'form_submit' | 'form_abandon';
+
+export interface FormEvent {
+    type: FormEventType;
+
+    /**
+     * Value of the form's `data-lwsa-form` attribute, falling back to its
+     * `id` or `name`
+     */
+    form: string;
+
+    /**
+     * Name of the field interacted with last, never its value
+     */
+    lastField: string | null;
+
+    /**
+     * Number of different fields interacted with
+     */
+    fieldsTouched: number;
+
+    /**
+     * Time in milliseconds since the form was started, `null` for
+     * `form_start` and forms submitted without interacting with a field
+     */
+    duration: number | null;
+
+    /**
+     * URL of the page the form was started on
+     */
+    url: string;
+
+    /**
+     * Path of the page the form was started on
+     */
+    path: string;
+}
+
+export interface FormTrackerOptions {
+    onFormEvent: (event: FormEvent) => void;
+
+    /**
+     * Path of the current page, e.g. with the route in hash routing mode
+     */
+    getPath: () => string;
+}
+
+export interface FormTracker {
+    start: () => void;
+    stop: () => void;
+
+    /**
+     * Report started forms as abandoned and forget them, e.g. when the SPA
+     * route changes
+     */
+    abandon: () => void;
+}
+
+export const FORM_ATTRIBUTE = 'data-lwsa-form';
+
+const FIELD_SELECTOR =
+    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]), select, textarea';
+
+interface FormState {
+    startedAt: number;
+    url: string;
+    path: string;
+    lastField: string | null;
+    fields: Set<string>;
+}
+
+function getFormName(form: HTMLFormElement): string {
+    return (
+        form.getAttribute(FORM_ATTRIBUTE) ||
+        form.id ||
+        form.getAttribute('name') ||
+        'form'
+    );
+}
+
+function getFieldName(field: Element): string {
+    return (
+        field.getAttribute('name') || field.id || field.tagName.toLowerCase()
+    );
+}
+
+function getTrackedForm(element: Element): HTMLFormElement | null {
+    // Fields can belong to a form without being inside it
+    const owner = (element as HTMLInputElement).form;
+    const form = owner ?? element.closest('form');
+    return form?.hasAttribute(FORM_ATTRIBUTE) ? form : null;
+}
+
+export function createFormTracker(options: FormTrackerOptions): FormTracker {
+    // Forms that were started and not yet submitted or abandoned
+    const started = new Map<HTMLFormElement, FormState>();
+
+    function emit(
+        type: FormEventType,
+        form: HTMLFormElement,
+        state: FormState | undefined,
+    ): void {
+        options.onFormEvent({
+            type,
+            form: getFormName(form),
+            lastField: state?.lastField ?? null,
+            fieldsTouched: state?.fields.size ?? 0,
+            duration:
+                type === 'form_start' || !state
+                    ? null
+                    : Date.now() - state.startedAt,
+            url: state?.url ?? window.location.href,
+            path: state?.path ?? options.getPath(),
+        });
+    }
+
+    // Forms removed from the page, e.g. with a closed modal, were abandoned
+    function abandonDetached(): void {
+        started.forEach((state, form) => {
+            if (form.isConnected) return;
+            started.delete(form);
+            emit('form_abandon', form, state);
+        });
+    }
+
+    function handleFieldEvent(event: Event): void {
+        const field = event.target;
+        if (!(field instanceof Element) || !field.matches(FIELD_SELECTOR)) {
+            return;
+        }
+        const form = getTrackedForm(field);
+        if (!form) return;
+
+        const name = getFieldName(field);
+        let state = started.get(form);
+        if (!state) {
+            abandonDetached();
+            state = {
+                startedAt: Date.now(),
+                url: window.location.href,
+                path: options.getPath(),
+                lastField: name,
+                fields: new Set([name]),
+            };
+            started.set(form, state);
+            emit('form_start', form, state);
+            return;
+        }
+        state.lastField = name;
+        state.fields.add(name);
+    }
+
+    function handleSubmit(event: SubmitEvent): void {
+        const form = event.target;
+        if (
+            !(form instanceof HTMLFormElement) ||
+            !form.hasAttribute(FORM_ATTRIBUTE)
+        ) {
+            return;
+        }
+        const state = started.get(form);
+        started.delete(form);
+        emit('form_submit', form, state);
+    }
+
+    function abandon(): void {
+        started.forEach((state, form) => emit('form_abandon', form, state));
+        started.clear();
+    }
+
+    return {
+        start: () => {
+            document.addEventListener('focusin', handleFieldEvent);
+            document.addEventListener('input', handleFieldEvent);
+            document.addEventListener('change', handleFieldEvent);
+            document.addEventListener('submit', handleSubmit);
+            window.addEventListener('pagehide', abandon);
+        },
+        stop: () => {
+            document.removeEventListener('focusin', handleFieldEvent);
+            document.removeEventListener('input', handleFieldEvent);
+            document.removeEventListener('change', handleFieldEvent);
+            document.removeEventListener('submit', handleSubmit);
+            window.removeEventListener('pagehide', abandon);
+            started.clear();
+        },
+        abandon,
+    };
+}
+
+/**
+ * Tracks starts, submits and abandonment of forms with a `data-lwsa-form`
+ * attribute. Field values are never sent.
+ */
+export function createFormTrackingPlugin(): LwsAnalyticsPlugin {
+    let tracker: FormTracker | null = null;
+
+    return {
+        name: 'form-tracking',
+        setup: (context) => {
+            tracker = createFormTracker({
+                onFormEvent: (event) => {
+                    context.log('Form event detected:', event.type, event.form);
+                    context.track(
+                        event.type,
+                        event.form,
+                        {
+                            ...(event.lastField && {
+                                last_field: event.lastField,
+                            }),
+                            fields_touched: event.fieldsTouched,
+                            ...(event.duration !== null && {
+                                duration_ms: event.duration,
+                            }),
+                        },
+                        // Attribute to the page the form was started on
+                        { url: event.url, path: event.path },
+                    );
+                    // Submitting and abandoning usually leave the page
+                    if (event.type !== 'form_start') {
+                        context.flush();
+                    }
+                },
+                getPath: context.getPath,
+            });
+            tracker.start();
+        },
+        routeChange: () => tracker?.abandon(),
+        teardown: () => {
+            tracker?.stop();
+            tracker = null;
+        },
+    };
+}
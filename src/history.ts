@@ -0,0 +1,76 @@
+export type NavigationListener = () => void;
+
+const listeners = new Set<NavigationListener>();
+
+let originalPushState: typeof history.pushState | null = null;
+let originalReplaceState: typeof history.replaceState | null = null;
+let patchedPushState: typeof history.pushState | null = null;
+let patchedReplaceState: typeof history.replaceState | null = null;
+
+function notify(): void {
+    // Copy so listeners can unsubscribe while being notified
+    Array.from(listeners).forEach((listener) => listener());
+}
+
+function patchHistory(): void {
+    if (patchedPushState) return;
+
+    const pushState = history.pushState;
+    const replaceState = history.replaceState;
+    originalPushState = pushState;
+    originalReplaceState = replaceState;
+
+    patchedPushState = function (this: History, ...args) {
+        pushState.apply(this, args);
+        notify();
+    };
+    patchedReplaceState = function (this: History, ...args) {
+        replaceState.apply(this, args);
+        notify();
+    };
+    history.pushState = patchedPushState;
+    history.replaceState = patchedReplaceState;
+}
+
+function restoreHistory(): void {
+    // Another script wrapped our patch, restoring would drop its wrapper.
+    // Our patch stays in place and notifies nobody until the next subscriber.
+    if (
+        history.pushState !== patchedPushState ||
+        history.replaceState !== patchedReplaceState
+    ) {
+        return;
+    }
+
+    history.pushState = originalPushState!;
+    history.replaceState = originalReplaceState!;
+    originalPushState = null;
+    originalReplaceState = null;
+    patchedPushState = null;
+    patchedReplaceState = null;
+}
+
+/**
+ * Get notified about `pushState`, `replaceState`, `popstate` and `hashchange`
+ * navigation. A single navigation may notify more than once, e.g. following
+ * an anchor fires both `popstate` and `hashchange`.
+ * The history API is patched once for all subscribers and restored when the
+ * last one unsubscribes.
+ */
+export function subscribeToNavigation(
+    listener: NavigationListener,
+): () => void {
+    if (listeners.size === 0) {
+        patchHistory();
+        window.addEventListener('popstate', notify);
+        window.addEventListener('hashchange', notify);
+    }
+    listeners.add(listener);
+
+    return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) return;
+        window.removeEventListener('popstate', notify);
+        window.removeEventListener('hashchange', notify);
+        restoreHistory();
+    };
+}
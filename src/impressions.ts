@@ -0,0 +1,261 @@
+import { getElementProperties } from './clicks';
+import type { LwsAnalyticsPlugin } from './plugins';
+
+export interface ImpressionTrackerOptions {
+    /**
+     * Share of an element that has to be visible, from 0 to 1
+     */
+    threshold: number;
+
+    /**
+     * Time in milliseconds an element has to stay visible
+     */
+    minDwellTime: number;
+
+    /**
+     * Called once per element until `reset()`, with the value of its
+     * `data-lwsa-impression` attribute
+     */
+    onImpression: (name: string, element: Element) => void;
+
+    log: (...args: unknown[]) => void;
+}
+
+export interface ImpressionTracker {
+    /**
+     * Observe elements with `data-lwsa-impression`, including ones added later
+     */
+    start: () => void;
+
+    /**
+     * Disconnect all observers and cancel pending impressions
+     */
+    stop: () => void;
+
+    /**
+     * Allow every element to be tracked again, e.g. after a page view
+     */
+    reset: () => void;
+}
+
+export interface ImpressionTrackingPluginOptions {
+    /**
+     * Share of an element that has to be visible for an impression, from 0
+     * to 1 (default: 0.5)
+     */
+    threshold?: number;
+
+    /**
+     * Time in milliseconds an element has to stay visible for an impression
+     * (default: 1000)
+     */
+    minDwellTime?: number;
+}
+
+export const IMPRESSION_ATTRIBUTE = 'data-lwsa-impression';
+
+const SELECTOR = `[${IMPRESSION_ATTRIBUTE}]`;
+
+export function createImpressionTracker(
+    options: ImpressionTrackerOptions,
+): ImpressionTracker {
+    let intersectionObserver: IntersectionObserver | null = null;
+    let mutationObserver: MutationObserver | null = null;
+    let tracked = new WeakSet<Element>();
+    // Elements currently visible enough, with their pending dwell timer
+    const visible = new Map<Element, ReturnType<typeof setTimeout> | null>();
+
+    function fire(element: Element): void {
+        cancel(element);
+        const name = element.getAttribute(IMPRESSION_ATTRIBUTE);
+        if (!name || tracked.has(element) || !element.isConnected) return;
+
+        tracked.add(element);
+        intersectionObserver?.unobserve(element);
+        options.onImpression(name, element);
+    }
+
+    function schedule(element: Element): void {
+        if (visible.get(element)) return;
+        // Pages opened in a background tab start timing once they are shown
+        if (document.visibilityState === 'hidden') {
+            visible.set(element, null);
+            return;
+        }
+        visible.set(
+            element,
+            setTimeout(() => fire(element), options.minDwellTime),
+        );
+    }
+
+    function cancel(element: Element): void {
+        const timer = visible.get(element);
+        if (timer) {
+            clearTimeout(timer);
+        }
+        visible.delete(element);
+    }
+
+    function handleIntersections(entries: IntersectionObserverEntry[]): void {
+        entries.forEach((entry) => {
+            if (
+                entry.isIntersecting &&
+                entry.intersectionRatio >= options.threshold
+            ) {
+                schedule(entry.target);
+            } else {
+                cancel(entry.target);
+            }
+        });
+    }
+
+    function observe(element: Element): void {
+        if (!tracked.has(element)) {
+            intersectionObserver?.observe(element);
+        }
+    }
+
+    function observeTree(root: Element): void {
+        if (root.matches(SELECTOR)) {
+            observe(root);
+        }
+        root.querySelectorAll(SELECTOR).forEach(observe);
+    }
+
+    function unobserve(element: Element): void {
+        cancel(element);
+        intersectionObserver?.unobserve(element);
+    }
+
+    function unobserveTree(root: Element): void {
+        unobserve(root);
+        root.querySelectorAll(SELECTOR).forEach(unobserve);
+    }
+
+    function handleMutations(records: MutationRecord[]): void {
+        records.forEach((record) => {
+            if (record.type === 'attributes') {
+                const element = record.target as Element;
+                if (element.hasAttribute(IMPRESSION_ATTRIBUTE)) {
+                    observe(element);
+                } else {
+                    unobserve(element);
+                }
+                return;
+            }
+            record.addedNodes.forEach((node) => {
+                if (node instanceof Element) observeTree(node);
+            });
+            record.removedNodes.forEach((node) => {
+                if (node instanceof Element) unobserveTree(node);
+            });
+        });
+    }
+
+    // Dwell time only counts while the page is visible
+    function handleVisibilityChange(): void {
+        const hidden = document.visibilityState === 'hidden';
+        visible.forEach((timer, element) => {
+            if (hidden && timer) {
+                clearTimeout(timer);
+                visible.set(element, null);
+            } else if (!hidden) {
+                schedule(element);
+            }
+        });
+    }
+
+    function stop(): void {
+        intersectionObserver?.disconnect();
+        intersectionObserver = null;
+        mutationObserver?.disconnect();
+        mutationObserver = null;
+        visible.forEach((timer) => timer && clearTimeout(timer));
+        visible.clear();
+        document.removeEventListener(
+            'visibilitychange',
+            handleVisibilityChange,
+        );
+    }
+
+    return {
+        start: () => {
+            if (typeof IntersectionObserver === 'undefined') {
+                options.log(
+                    'IntersectionObserver unavailable, impressions are not tracked',
+                );
+                return;
+            }
+            stop();
+
+            intersectionObserver = new IntersectionObserver(
+                handleIntersections,
+                // Also report when an element crosses the threshold
+                { threshold: [0, options.threshold] },
+            );
+            observeTree(document.documentElement);
+
+            if (typeof MutationObserver !== 'undefined') {
+                mutationObserver = new MutationObserver(handleMutations);
+                mutationObserver.observe(document.documentElement, {
+                    childList: true,
+                    subtree: true,
+                    attributes: true,
+                    attributeFilter: [IMPRESSION_ATTRIBUTE],
+                });
+            }
+            document.addEventListener(
+                'visibilitychange',
+                handleVisibilityChange,
+            );
+        },
+        stop,
+        reset: () => {
+            tracked = new WeakSet();
+            if (!intersectionObserver) return;
+
+            // Observing again reports the current visibility of each element
+            visible.forEach((timer) => timer && clearTimeout(timer));
+            visible.clear();
+            document.querySelectorAll(SELECTOR).forEach((element) => {
+                intersectionObserver?.unobserve(element);
+                intersectionObserver?.observe(element);
+            });
+        },
+    };
+}
+
+/**
+ * Tracks elements with `data-lwsa-impression` as impression events when they
+ * become visible, once per element per page view
+ */
+export function createImpressionTrackingPlugin(
+    options: ImpressionTrackingPluginOptions = {},
+): LwsAnalyticsPlugin {
+    let tracker: ImpressionTracker | null = null;
+
+    return {
+        name: 'impression-tracking',
+        setup: (context) => {
+            tracker = createImpressionTracker({
+                threshold: options.threshold ?? 0.5,
+                minDwellTime: options.minDwellTime ?? 1000,
+                onImpression: (name, element) => {
+                    context.log('Impression detected on element:', element);
+                    context.track(
+                        'impression',
+                        name,
+                        getElementProperties(element),
+                    );
+                },
+                log: context.log,
+            });
+            tracker.start();
+        },
+        pageView: () => tracker?.reset(),
+        teardown: () => {
+            tracker?.stop();
+            tracker = null;
+        },
+    };
+}
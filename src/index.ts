@@ -1,308 +1,223 @@
 /// <reference path="../global.d.ts" />
 
-export const DEFAULT_ENDPOINT = 'https://dashboard.lws-analytics.eu/api/track';
-
-export interface LwsAnalyticsConfig {
-    /**
-     * Site identifier (required)
-     */
-    siteId: string;
-
-    /**
-     * Enable debug mode
-     */
-    debug?: boolean;
-
-    /**
-     * Automatically track page views on init (default: true)
-     */
-    trackPageViewOnInit?: boolean;
-
-    /**
-     * Enable SPA navigation tracking (default: true)
-     */
-    trackSpaNavigation?: boolean;
-
-    /**
-     * Enable click tracking for elements with data-lwsa-event attribute (default: true)
-     */
-    trackClicks?: boolean;
-}
-
-export interface LwsAnalyticsInstance {
-    /**
-     * Track a page view
-     */
-    trackPageView: () => void;
-
-    /**
-     * Track a custom event
-     * @param name - The name of the custom event
-     */
-    trackEvent: (name: string) => void;
-
-    /**
-     * Destroy the analytics instance and remove event listeners
-     */
-    destroy: () => void;
-}
-
-// Internal state
+import type { CampaignPluginOptions, ReferrerType } from './campaign';
+import type {
+    CheckoutStep,
+    CommercePlugin,
+    Product,
+    Purchase,
+} from './commerce';
+import type { ConsentAdapter, ConsentState } from './consent';
+import type { DebugPanel, DebugPanelTarget } from './debug-panel';
+import type { EngagementPluginOptions } from './engagement';
+import type { ErrorTrackingPlugin, ErrorTrackingPluginOptions } from './errors';
+import type { ImpressionTrackingPluginOptions } from './impressions';
+import type { LinkTrackingPluginOptions } from './links';
+import type { LwsAnalyticsPlugin, PluginContext } from './plugins';
+import type { PrivacySignalPolicy } from './privacy';
+import type { RoutingMode } from './routing';
+import type { SessionRotation } from './session';
+import type { SuperProperties, SuperPropertyValue } from './super-properties';
+import { createTracker } from './tracker';
+import type { Transport, TransportBody, TransportName } from './transport';
+import type {
+    EventMap,
+    EventProperties,
+    EventPropertyValue,
+    LwsAnalyticsConfig,
+    LwsAnalyticsInstance,
+    PageViewOptions,
+    PayloadInspection,
+    PayloadStatus,
+    ValidEventMap,
+} from './types';
+
+// Default tracker used by init() and the top-level functions
 let instance: LwsAnalyticsInstance | null = null;
-let config: LwsAnalyticsConfig | null = null;
-let lastTrackedUrl: string | null = null;
-let originalPushState: typeof history.pushState | null = null;
-let originalReplaceState: typeof history.replaceState | null = null;
-
-const STORAGE_KEY = 'lws_analytics_client_id';
-
-const EVENT_TYPES = {
-    PAGE_VIEW: 'page_view',
-    CUSTOM: 'custom',
-} as const;
-
-function log(...args: unknown[]): void {
-    if (config?.debug) {
-        console.log('[LWS Analytics]', ...args);
-    }
-}
 
-function warn(...args: unknown[]): void {
-    if (config?.debug) {
-        console.warn('[LWS Analytics]', ...args);
+// Initialize LWS Analytics
+export function init<Events extends ValidEventMap<Events> = EventMap>(
+    options: LwsAnalyticsConfig,
+): LwsAnalyticsInstance<Events> {
+    // Destroy existing instance if any
+    if (instance) {
+        instance.destroy();
     }
-}
 
-function generateUniqueId(): string {
-    if (
-        typeof crypto !== 'undefined' &&
-        typeof crypto.randomUUID === 'function'
-    ) {
-        return crypto.randomUUID();
-    }
-    // Fallback for older browsers
-    return (
-        'cid_' + Math.random().toString(36).slice(2) + Date.now().toString(36)
-    );
-}
-
-function getClientId(): string {
-    try {
-        let clientId = localStorage.getItem(STORAGE_KEY);
-        if (!clientId) {
-            clientId = generateUniqueId();
-            localStorage.setItem(STORAGE_KEY, clientId);
-        }
-        return clientId;
-    } catch {
-        // localStorage unavailable (private browsing, etc.)
-        return 'session_' + generateUniqueId();
+    const tracker = createTracker<Events>(options);
+    if (typeof window === 'undefined') {
+        return tracker;
     }
-}
 
-function buildPayload(type: string, name: string): Record<string, unknown> {
-    return {
-        identifier: config?.siteId,
-        type: type,
-        name: name,
-        client_id: getClientId(),
-        url: window.location.href,
-        path: window.location.pathname,
-        referer: document.referrer || null,
-        user_agent: navigator.userAgent,
-        language: navigator.language || null,
-        device_width: window.screen.width,
-        device_height: window.screen.height,
-        timezone_offset: new Date().getTimezoneOffset(),
-        timestamp: new Date().toISOString(),
+    const defaultInstance: LwsAnalyticsInstance<Events> = {
+        ...tracker,
+        destroy: () => {
+            tracker.destroy();
+            if (instance === defaultInstance) {
+                instance = null;
+            }
+        },
     };
-}
+    instance = defaultInstance as LwsAnalyticsInstance;
 
-function sendPayload(payload: Record<string, unknown>): void {
-    log('Sending payload:', payload);
-
-    fetch(DEFAULT_ENDPOINT, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        keepalive: true,
-    }).catch((error) => {
-        warn('Failed to send payload:', error);
-    });
-}
+    // Also expose globally for compatibility
+    window.LwsAnalytics = {
+        trackPageView: instance.trackPageView,
+        trackCustomEvent: instance.trackEvent,
+        setConsent: instance.setConsent,
+        identify: instance.identify,
+        reset: instance.reset,
+        register: instance.register,
+        registerOnce: instance.registerOnce,
+        unregister: instance.unregister,
+        inspect: instance.inspect,
+        setPaused: instance.setPaused,
+        getSentEvents: instance.getSentEvents,
+        clearSentEvents: instance.clearSentEvents,
+    };
 
-function trackPageViewInternal(): void {
-    sendPayload(buildPayload(EVENT_TYPES.PAGE_VIEW, 'Page view'));
+    return defaultInstance;
 }
 
-function trackEventInternal(name: string): void {
-    if (!name) {
-        warn('trackEvent() requires an event name');
+/**
+ * Track a custom event (requires init() to be called first)
+ * @param eventName - The name of the event to track
+ * @param props - Optional properties to attach to the event
+ */
+export function trackEvent(eventName: string, props?: EventProperties): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
         return;
     }
-    sendPayload(buildPayload(EVENT_TYPES.CUSTOM, name));
+    instance.trackEvent(eventName, props);
 }
 
-function handleClick(event: MouseEvent): void {
-    const target = event.target as Element | null;
-    const element = target?.closest('[data-lwsa-event]');
-    if (!element) return;
-
-    const eventName = element.getAttribute('data-lwsa-event');
-    if (eventName) {
-        log('Click detected on element:', element);
-        log('Event name:', eventName);
-        trackEventInternal(eventName);
+/**
+ * Track a page view (requires init() to be called first)
+ * @param options - Optional virtual path and title, e.g. for wizard steps
+ */
+export function trackPageView(options?: PageViewOptions): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
+    instance.trackPageView(options);
 }
 
-function handleUrlChange(): void {
-    const currentUrl = window.location.href;
-    if (currentUrl !== lastTrackedUrl) {
-        lastTrackedUrl = currentUrl;
-        trackPageViewInternal();
+/**
+ * Grant or deny consent for analytics tracking (requires init() to be called first)
+ * @param consent - The user's consent decision
+ */
+export function setConsent(consent: ConsentState): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
+    instance.setConsent(consent);
 }
 
-function handlePopState(): void {
-    handleUrlChange();
-}
-
-function setupSpaTracking(): void {
-    lastTrackedUrl = window.location.href;
-
-    // Override pushState
-    originalPushState = history.pushState;
-    history.pushState = function (...args) {
-        originalPushState?.apply(this, args);
-        handleUrlChange();
-    };
-
-    // Override replaceState
-    originalReplaceState = history.replaceState;
-    history.replaceState = function (...args) {
-        originalReplaceState?.apply(this, args);
-        handleUrlChange();
-    };
-
-    // Listen for popstate (back/forward navigation)
-    window.addEventListener('popstate', handlePopState);
-}
-
-function teardownSpaTracking(): void {
-    if (originalPushState) {
-        history.pushState = originalPushState;
-        originalPushState = null;
-    }
-    if (originalReplaceState) {
-        history.replaceState = originalReplaceState;
-        originalReplaceState = null;
+/**
+ * Identify the logged in user (requires init() to be called first)
+ * @param userId - Your own ID for the user
+ * @param traits - Optional properties describing the user
+ */
+export function identify(userId: string, traits?: EventProperties): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
-    window.removeEventListener('popstate', handlePopState);
+    instance.identify(userId, traits);
 }
 
-// Initialize LWS Analytics
-export function init(options: LwsAnalyticsConfig): LwsAnalyticsInstance {
-    if (typeof window === 'undefined') {
-        console.warn(
-            '[LWS Analytics] Cannot initialize in non-browser environment',
-        );
-        // Return a no-op instance for SSR
-        return {
-            trackPageView: () => {},
-            trackEvent: () => {},
-            destroy: () => {},
-        };
-    }
-
-    // Destroy existing instance if any
-    if (instance) {
-        instance.destroy();
+/**
+ * Forget the identified user and rotate the client ID (requires init() to be
+ * called first)
+ */
+export function reset(): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
+    instance.reset();
+}
 
-    // Validate config
-    if (!options.siteId) {
-        console.warn('[LWS Analytics] No site ID configured');
+/**
+ * Attach properties to every following event (requires init() to be called
+ * first)
+ * @param props - Static values or functions evaluated when an event is tracked
+ */
+export function register(props: SuperProperties): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
-    // Set config with defaults
-    config = {
-        trackPageViewOnInit: true,
-        trackSpaNavigation: true,
-        trackClicks: true,
-        ...options,
-    };
+    instance.register(props);
+}
 
-    // Setup click tracking
-    if (config.trackClicks) {
-        document.addEventListener('click', handleClick);
+/**
+ * Attach properties to every following event unless they are already
+ * registered (requires init() to be called first)
+ * @param props - Static values or functions evaluated when an event is tracked
+ */
+export function registerOnce(props: SuperProperties): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
+    instance.registerOnce(props);
+}
 
-    // Setup SPA navigation tracking
-    if (config.trackSpaNavigation) {
-        setupSpaTracking();
+/**
+ * Stop attaching a registered property (requires init() to be called first)
+ * @param key - The property name
+ */
+export function unregister(key: string): void {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return;
     }
+    instance.unregister(key);
+}
 
-    // Track initial page view
-    if (config.trackPageViewOnInit) {
-        if (document.readyState === 'loading') {
-            document.addEventListener(
-                'DOMContentLoaded',
-                trackPageViewInternal,
-                { once: true },
-            );
-        } else {
-            trackPageViewInternal();
-        }
+/**
+ * Payloads recorded by the `memory` transport, for assertions in tests
+ * (requires init() to be called first)
+ */
+export function getSentEvents(): Record<string, unknown>[] {
+    if (!instance) {
+        console.warn('[LWS Analytics] Not initialized. Call init() first.');
+        return [];
     }
-
-    // Create instance
-    instance = {
-        trackPageView: trackPageViewInternal,
-        trackEvent: trackEventInternal,
-        destroy: () => {
-            if (config?.trackClicks) {
-                document.removeEventListener('click', handleClick);
-            }
-            if (config?.trackSpaNavigation) {
-                teardownSpaTracking();
-            }
-            config = null;
-            instance = null;
-            lastTrackedUrl = null;
-        },
-    };
-
-    // Also expose globally for compatibility
-    window.LwsAnalytics = {
-        trackPageView: trackPageViewInternal,
-        trackCustomEvent: trackEventInternal,
-    };
-    log('Initialized with config:', config);
-
-    return instance;
+    return instance.getSentEvents();
 }
 
 /**
- * Track a custom event (requires init() to be called first)
- * @param eventName - The name of the event to track
+ * Forget the payloads recorded by the `memory` transport (requires init() to
+ * be called first)
  */
-export function trackEvent(eventName: string): void {
+export function clearSentEvents(): void {
     if (!instance) {
         console.warn('[LWS Analytics] Not initialized. Call init() first.');
         return;
     }
-    instance.trackEvent(eventName);
+    instance.clearSentEvents();
 }
 
 /**
- * Track a page view (requires init() to be called first)
+ * Show an in-page panel listing every payload and its status. The panel is
+ * loaded on demand and not part of the main bundle.
+ * @param tracker - Tracker to inspect (default: the tracker created by init())
  */
-export function trackPageView(): void {
-    if (!instance) {
+export function showDebugPanel(
+    tracker: DebugPanelTarget | null = instance,
+): Promise<DebugPanel | null> {
+    if (!tracker) {
         console.warn('[LWS Analytics] Not initialized. Call init() first.');
-        return;
+        return Promise.resolve(null);
     }
-    instance.trackPageView();
+    return import('./debug-panel').then(({ createDebugPanel }) =>
+        createDebugPanel(tracker),
+    );
 }
 
 /**
@@ -319,5 +234,61 @@ export function getInstance(): LwsAnalyticsInstance | null {
     return instance;
 }
 
+export {
+    createCampaignPlugin,
+    DEFAULT_CAMPAIGN_PARAMS,
+    DEFAULT_CLICK_ID_PARAMS,
+} from './campaign';
+export { createCommercePlugin } from './commerce';
+export { createTcfConsentAdapter } from './consent';
+export { createEngagementPlugin } from './engagement';
+export { createErrorTrackingPlugin } from './errors';
+export { createFormTrackingPlugin } from './forms';
+export { sha256 } from './hash';
+export { createImpressionTrackingPlugin } from './impressions';
+export { createLinkTrackingPlugin, DEFAULT_DOWNLOAD_EXTENSIONS } from './links';
+export { createTracker, DEFAULT_ENDPOINT } from './tracker';
+export {
+    createBeaconTransport,
+    createConsoleTransport,
+    createFetchTransport,
+    createMemoryTransport,
+} from './transport';
+export { createWebVitalsPlugin } from './web-vitals';
+
 // Re-export types
 export type { LwsAnalyticsInstance as LwsAnalytics };
+export type {
+    CampaignPluginOptions,
+    CheckoutStep,
+    CommercePlugin,
+    ConsentAdapter,
+    ConsentState,
+    DebugPanel,
+    EngagementPluginOptions,
+    ErrorTrackingPlugin,
+    ErrorTrackingPluginOptions,
+    EventMap,
+    EventProperties,
+    EventPropertyValue,
+    ImpressionTrackingPluginOptions,
+    LinkTrackingPluginOptions,
+    LwsAnalyticsConfig,
+    LwsAnalyticsInstance,
+    LwsAnalyticsPlugin,
+    PageViewOptions,
+    PayloadInspection,
+    PayloadStatus,
+    PluginContext,
+    PrivacySignalPolicy,
+    Product,
+    Purchase,
+    ReferrerType,
+    RoutingMode,
+    SessionRotation,
+    SuperProperties,
+    SuperPropertyValue,
+    Transport,
+    TransportBody,
+    TransportName,
+};
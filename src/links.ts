@@ -0,0 +1,227 @@
+import type { LwsAnalyticsPlugin } from './plugins';
+
+export type LinkEventType = 'outbound_link' | 'download' | 'mailto' | 'tel';
+
+export interface LinkTrackerOptions {
+    /**
+     * Track links to other domains
+     */
+    outbound: boolean;
+
+    /**
+     * Track links to files with one of `downloadExtensions` or a `download` attribute
+     */
+    downloads: boolean;
+
+    /**
+     * Track `mailto:` and `tel:` links
+     */
+    contact: boolean;
+
+    /**
+     * File extensions (without dot) that count as downloads
+     */
+    downloadExtensions: string[];
+
+    /**
+     * Links whose URL contains one of these strings or matches one of these
+     * patterns are not tracked
+     */
+    ignore: (string | RegExp)[];
+
+    onLink: (type: LinkEventType, url: string) => void;
+}
+
+export interface LinkTracker {
+    start: () => void;
+    stop: () => void;
+}
+
+export interface LinkTrackingPluginOptions {
+    /**
+     * Track clicks on links to other domains as outbound_link events
+     * (default: true)
+     */
+    outbound?: boolean;
+
+    /**
+     * Track clicks on file downloads as download events (default: true)
+     */
+    downloads?: boolean;
+
+    /**
+     * Track clicks on mailto: and tel: links as mailto/tel events
+     * (default: true)
+     */
+    contact?: boolean;
+
+    /**
+     * File extensions that count as downloads
+     * (default: DEFAULT_DOWNLOAD_EXTENSIONS)
+     */
+    downloadExtensions?: string[];
+
+    /**
+     * Links whose URL contains one of these strings or matches one of these
+     * patterns are not tracked
+     */
+    ignore?: (string | RegExp)[];
+}
+
+export const DEFAULT_DOWNLOAD_EXTENSIONS = [
+    '7z',
+    'csv',
+    'dmg',
+    'doc',
+    'docx',
+    'exe',
+    'gz',
+    'mp3',
+    'mp4',
+    'pdf',
+    'ppt',
+    'pptx',
+    'rar',
+    'txt',
+    'xls',
+    'xlsx',
+    'zip',
+];
+
+const IGNORE_ATTRIBUTE = 'data-lwsa-ignore';
+
+// Middle mouse button, fires `auxclick` instead of `click`
+const MIDDLE_BUTTON = 1;
+
+export function classifyLink(
+    anchor: HTMLAnchorElement,
+    options: Pick<
+        LinkTrackerOptions,
+        'outbound' | 'downloads' | 'contact' | 'downloadExtensions'
+    >,
+): LinkEventType | null {
+    let url: URL;
+    try {
+        url = new URL(anchor.href, window.location.href);
+    } catch {
+        return null;
+    }
+
+    if (url.protocol === 'mailto:' || url.protocol === 'tel:') {
+        return options.contact
+            ? (url.protocol.slice(0, -1) as LinkEventType)
+            : null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return null;
+    }
+
+    if (options.downloads) {
+        const extension = url.pathname.split('.').pop()?.toLowerCase();
+        const hasExtension =
+            url.pathname.includes('.') &&
+            extension !== undefined &&
+            options.downloadExtensions.includes(extension);
+        if (anchor.hasAttribute('download') || hasExtension) {
+            return 'download';
+        }
+    }
+
+    if (options.outbound && url.hostname !== window.location.hostname) {
+        return 'outbound_link';
+    }
+
+    return null;
+}
+
+export function createLinkTracker(options: LinkTrackerOptions): LinkTracker {
+    const extensions = options.downloadExtensions.map((extension) =>
+        extension.replace(/^\./, '').toLowerCase(),
+    );
+
+    function isIgnored(href: string): boolean {
+        return options.ignore.some((pattern) =>
+            typeof pattern === 'string'
+                ? href.includes(pattern)
+                : pattern.test(href),
+        );
+    }
+
+    function handleClick(event: MouseEvent): void {
+        // Right clicks open the context menu, not the link
+        if (event.type === 'auxclick' && event.button !== MIDDLE_BUTTON) {
+            return;
+        }
+
+        const target = event.target as Element | null;
+        const anchor = target?.closest('a[href]') as HTMLAnchorElement | null;
+        if (!anchor || anchor.closest(`[${IGNORE_ATTRIBUTE}]`)) return;
+
+        const type = classifyLink(anchor, {
+            ...options,
+            downloadExtensions: extensions,
+        });
+        if (!type || isIgnored(anchor.href)) return;
+
+        options.onLink(type, anchor.href);
+    }
+
+    return {
+        start: () => {
+            document.addEventListener('click', handleClick);
+            document.addEventListener('auxclick', handleClick);
+        },
+        stop: () => {
+            document.removeEventListener('click', handleClick);
+            document.removeEventListener('auxclick', handleClick);
+        },
+    };
+}
+
+const LINK_EVENT_NAMES: Record<LinkEventType, string> = {
+    outbound_link: 'Outbound link',
+    download: 'Download',
+    mailto: 'Email link',
+    tel: 'Phone link',
+};
+
+/**
+ * Tracks clicks on outbound links, downloads and mailto/tel links, with the
+ * link in `target_url`
+ */
+export function createLinkTrackingPlugin(
+    options: LinkTrackingPluginOptions = {},
+): LwsAnalyticsPlugin {
+    let tracker: LinkTracker | null = null;
+
+    return {
+        name: 'link-tracking',
+        setup: (context) => {
+            tracker = createLinkTracker({
+                outbound: options.outbound ?? true,
+                downloads: options.downloads ?? true,
+                contact: options.contact ?? true,
+                downloadExtensions:
+                    options.downloadExtensions ?? DEFAULT_DOWNLOAD_EXTENSIONS,
+                ignore: options.ignore ?? [],
+                onLink: (type, url) => {
+                    context.log('Link click detected:', type, url);
+                    context.track(type, LINK_EVENT_NAMES[type], undefined, {
+                        // mailto: and tel: targets are what these events are about
+                        target_url: /^https?:/i.test(url)
+                            ? context.sanitizeUrl(url)
+                            : url,
+                    });
+                    // The click usually navigates away, do not leave it
+                    // waiting in a batch
+                    context.flush();
+                },
+            });
+            tracker.start();
+        },
+        teardown: () => {
+            tracker?.stop();
+            tracker = null;
+        },
+    };
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { usePathname, useSearchParams } from 'next/navigation';
+import { Suspense, useEffect, useRef, type ReactNode } from 'react';
+import {
+    LwsAnalyticsProvider,
+    useLwsAnalytics,
+    type LwsAnalyticsProviderProps,
+} from './react';
+
+/**
+ * Track a page view whenever the Next.js pathname or search params change.
+ * Use it inside an `<LwsAnalyticsProvider>` with `routingMode: 'manual'`,
+ * or use `<LwsAnalyticsNextProvider>` which sets that up.
+ */
+export function NextPageViews() {
+    const analytics = useLwsAnalytics();
+    const pathname = usePathname();
+    const search = useSearchParams()?.toString() ?? '';
+    const lastTracked = useRef<string | null>(null);
+
+    useEffect(() => {
+        const page = search ? `${pathname}?${search}` : pathname;
+        // StrictMode runs effects twice for the same page
+        if (!analytics || page === lastTracked.current) return;
+
+        lastTracked.current = page;
+        analytics.trackPageView();
+    }, [analytics, pathname, search]);
+
+    return null;
+}
+
+export interface LwsAnalyticsNextProviderProps extends LwsAnalyticsProviderProps {
+    children?: ReactNode;
+}
+
+/**
+ * `<LwsAnalyticsProvider>` for the Next.js App Router. Page views are tracked
+ * from `usePathname()` and `useSearchParams()` instead of patching `history`.
+ */
+export function LwsAnalyticsNextProvider({
+    config,
+    children,
+}: LwsAnalyticsNextProviderProps) {
+    return (
+        <LwsAnalyticsProvider
+            config={{
+                ...config,
+                routingMode: 'manual',
+                trackPageViewOnInit: false,
+            }}
+        >
+            {/* useSearchParams() needs a Suspense boundary for static pages */}
+            <Suspense fallback={null}>
+                <NextPageViews />
+            </Suspense>
+            {children}
+        </LwsAnalyticsProvider>
+    );
+}
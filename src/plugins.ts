@@ -0,0 +1,229 @@
+import type {
+    EventProperties,
+    LwsAnalyticsConfig,
+    PageViewOptions,
+} from './types';
+
+export interface PluginContext {
+    /**
+     * Config of the tracker the plugin is registered on
+     */
+    config: Readonly<LwsAnalyticsConfig>;
+
+    trackPageView: (options?: PageViewOptions) => void;
+    trackEvent: (name: string, props?: EventProperties) => void;
+
+    /**
+     * Send an event with its own type, e.g. `web_vitals`. `fields` are added
+     * to the payload; `url` and `path` among them are sanitized like the page
+     * URL.
+     */
+    track: (
+        type: string,
+        name: string,
+        props?: EventProperties,
+        fields?: Record<string, unknown>,
+    ) => void;
+
+    /**
+     * Path of the current page for the routing mode
+     */
+    getPath: () => string;
+
+    /**
+     * Apply the URL sanitization rules to a URL or path
+     */
+    sanitizeUrl: (url: string) => string;
+    sanitizePath: (path: string) => string;
+
+    /**
+     * Send batched payloads right away, e.g. when the page is about to be left
+     */
+    flush: () => void;
+
+    /**
+     * Whether storage may be used: false in anonymous mode and without consent
+     */
+    canPersist: () => boolean;
+
+    /**
+     * Log through the tracker, only printed in debug mode
+     */
+    log: (...args: unknown[]) => void;
+    warn: (...args: unknown[]) => void;
+}
+
+export interface LwsAnalyticsPlugin {
+    /**
+     * Unique name, used in log messages and to prevent double registration
+     */
+    name: string;
+
+    /**
+     * Called once when the plugin is registered
+     */
+    setup?: (context: PluginContext) => void;
+
+    /**
+     * Called before a payload is sent. Mutate the payload or return a
+     * replacement to change it, return `null` to drop it.
+     */
+    beforeSend?: (
+        payload: Record<string, unknown>,
+    ) => Record<string, unknown> | null | void;
+
+    /**
+     * Called once a payload was delivered: the request succeeded, including
+     * replays from the offline queue, or the browser accepted the beacon.
+     * Not called for payloads that failed and were queued.
+     */
+    afterSend?: (payload: Record<string, unknown>) => void;
+
+    /**
+     * Called after a page view was tracked
+     */
+    pageView?: () => void;
+
+    /**
+     * Called when the SPA route changes, before the page view of the new
+     * route. Events about the previous page are sent here.
+     */
+    routeChange?: () => void;
+
+    /**
+     * Called when consent is granted or denied, to persist or remove what the
+     * plugin stores
+     */
+    consentChange?: (granted: boolean) => void;
+
+    /**
+     * Called on `reset()`, to forget what belongs to the previous user
+     */
+    reset?: () => void;
+
+    /**
+     * Called when the tracker is destroyed
+     */
+    teardown?: () => void;
+}
+
+export interface PluginPipelineOptions {
+    context: PluginContext;
+    warn: (...args: unknown[]) => void;
+}
+
+export interface PluginPipeline {
+    /**
+     * Register a plugin and run its `setup` hook
+     */
+    use: (plugin: LwsAnalyticsPlugin) => void;
+
+    /**
+     * Run `beforeSend` hooks in registration order. Returns `null` when a
+     * plugin dropped the payload.
+     */
+    beforeSend: (
+        payload: Record<string, unknown>,
+    ) => Record<string, unknown> | null;
+
+    afterSend: (payloads: Record<string, unknown>[]) => void;
+
+    pageView: () => void;
+    routeChange: () => void;
+    consentChange: (granted: boolean) => void;
+    reset: () => void;
+
+    /**
+     * Run `teardown` hooks and unregister all plugins
+     */
+    teardown: () => void;
+}
+
+export function createPluginPipeline(
+    options: PluginPipelineOptions,
+): PluginPipeline {
+    let plugins: LwsAnalyticsPlugin[] = [];
+
+    // A failing plugin must not break tracking or the other plugins
+    function run<T>(
+        plugin: LwsAnalyticsPlugin,
+        hook: string,
+        callback: () => T,
+    ): { ok: true; value: T } | { ok: false } {
+        try {
+            return { ok: true, value: callback() };
+        } catch (error) {
+            options.warn(`Plugin "${plugin.name}" failed in ${hook}:`, error);
+            return { ok: false };
+        }
+    }
+
+    function notify(
+        hook: 'pageView' | 'routeChange' | 'consentChange' | 'reset',
+        call: (plugin: LwsAnalyticsPlugin) => void,
+    ): void {
+        plugins.forEach((plugin) => {
+            if (plugin[hook]) {
+                run(plugin, hook, () => call(plugin));
+            }
+        });
+    }
+
+    return {
+        use: (plugin) => {
+            if (plugins.some((existing) => existing.name === plugin.name)) {
+                options.warn(`Plugin "${plugin.name}" is already registered`);
+                return;
+            }
+            plugins.push(plugin);
+            if (plugin.setup) {
+                run(plugin, 'setup', () => plugin.setup!(options.context));
+            }
+        },
+        beforeSend: (payload) => {
+            let current = payload;
+            for (const plugin of plugins) {
+                if (!plugin.beforeSend) continue;
+
+                const result = run(plugin, 'beforeSend', () =>
+                    plugin.beforeSend!(current),
+                );
+                if (!result.ok) continue;
+                if (result.value === null) {
+                    options.context.log(
+                        `Payload dropped by plugin "${plugin.name}":`,
+                        current,
+                    );
+                    return null;
+                }
+                if (result.value) {
+                    current = result.value;
+                }
+            }
+            return current;
+        },
+        afterSend: (payloads) => {
+            for (const plugin of plugins) {
+                if (!plugin.afterSend) continue;
+                payloads.forEach((payload) =>
+                    run(plugin, 'afterSend', () => plugin.afterSend!(payload)),
+                );
+            }
+        },
+        pageView: () => notify('pageView', (plugin) => plugin.pageView!()),
+        routeChange: () =>
+            notify('routeChange', (plugin) => plugin.routeChange!()),
+        consentChange: (granted) =>
+            notify('consentChange', (plugin) => plugin.consentChange!(granted)),
+        reset: () => notify('reset', (plugin) => plugin.reset!()),
+        teardown: () => {
+            const registered = plugins;
+            plugins = [];
+            registered.forEach((plugin) => {
+                if (plugin.teardown) {
+                    run(plugin, 'teardown', () => plugin.teardown!());
+                }
+            });
+        },
+    };
+}
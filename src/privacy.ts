@@ -0,0 +1,63 @@
+/**
+ * How to react to a browser privacy signal:
+ * - `disable`: do not track at all
+ * - `anonymous`: track without storage or client ID
+ * - `ignore`: track as usual
+ */
+export type PrivacySignalPolicy = 'disable' | 'anonymous' | 'ignore';
+
+export interface PrivacySignals {
+    /**
+     * Do Not Track is enabled
+     */
+    doNotTrack: boolean;
+
+    /**
+     * Global Privacy Control is enabled
+     */
+    globalPrivacyControl: boolean;
+}
+
+const POLICY_STRICTNESS: Record<PrivacySignalPolicy, number> = {
+    ignore: 0,
+    anonymous: 1,
+    disable: 2,
+};
+
+export function detectPrivacySignals(): PrivacySignals {
+    const nav = navigator as Navigator & {
+        globalPrivacyControl?: boolean;
+        msDoNotTrack?: string;
+    };
+    const win = window as Window & { doNotTrack?: string };
+    const dnt = nav.doNotTrack ?? win.doNotTrack ?? nav.msDoNotTrack;
+
+    return {
+        doNotTrack: dnt === '1' || dnt === 'yes',
+        globalPrivacyControl: nav.globalPrivacyControl === true,
+    };
+}
+
+/**
+ * Pick the strictest policy among the signals that are enabled
+ */
+export function resolvePrivacyPolicy(
+    signals: PrivacySignals,
+    policies: { dnt?: PrivacySignalPolicy; gpc?: PrivacySignalPolicy },
+): PrivacySignalPolicy {
+    const candidates: PrivacySignalPolicy[] = [];
+    if (signals.doNotTrack && policies.dnt) {
+        candidates.push(policies.dnt);
+    }
+    if (signals.globalPrivacyControl && policies.gpc) {
+        candidates.push(policies.gpc);
+    }
+
+    return candidates.reduce<PrivacySignalPolicy>(
+        (strictest, policy) =>
+            POLICY_STRICTNESS[policy] > POLICY_STRICTNESS[strictest]
+                ? policy
+                : strictest,
+        'ignore',
+    );
+}
@@ -0,0 +1,277 @@
+import {
+    generateUniqueId,
+    readStorage,
+    removeStorage,
+    writeStorage,
+} from './utils';
+
+export interface QueuedPayload {
+    id: string;
+    payload: Record<string, unknown>;
+    attempts: number;
+    createdAt: number;
+    nextAttemptAt: number;
+
+    /**
+     * Set while a flush is sending the payload, so other tabs and trackers
+     * sharing the storage key skip it
+     */
+    inFlightUntil?: number;
+}
+
+export interface OfflineQueueOptions {
+    /**
+     * localStorage key the queue is persisted under
+     */
+    storageKey: string;
+
+    /**
+     * Maximum number of queued payloads, oldest are dropped first
+     */
+    maxSize: number;
+
+    /**
+     * Time in milliseconds after which queued payloads are discarded
+     */
+    ttl: number;
+
+    /**
+     * Delay in milliseconds before the first retry, doubled on each attempt
+     */
+    baseDelay: number;
+
+    /**
+     * Upper bound for the retry delay in milliseconds
+     */
+    maxDelay: number;
+
+    /**
+     * Deliver a payload, rejecting when it should be retried later
+     */
+    send: (payload: Record<string, unknown>) => Promise<void>;
+
+    log: (...args: unknown[]) => void;
+    warn: (...args: unknown[]) => void;
+}
+
+export interface OfflineQueue {
+    /**
+     * Persist a payload that failed to send so it can be retried later
+     */
+    enqueue: (payload: Record<string, unknown>) => void;
+
+    /**
+     * Send all due payloads while the queue is started. With `force`,
+     * payloads still waiting for their backoff delay are sent as well.
+     * Expired payloads are discarded either way.
+     */
+    flush: (force?: boolean) => Promise<void>;
+
+    /**
+     * Start listening for the `online` event and replay queued payloads
+     */
+    start: () => void;
+
+    /**
+     * Stop listening and cancel pending retries. Queued payloads are kept.
+     */
+    stop: () => void;
+
+    /**
+     * Remove all queued payloads from storage
+     */
+    clear: () => void;
+
+    /**
+     * Number of payloads currently queued
+     */
+    size: () => number;
+}
+
+// A claim outlives a slow request, and expires when the tab that made it was
+// closed mid-send
+const CLAIM_DURATION = 60 * 1000;
+
+function getAvailableAt(entry: QueuedPayload): number {
+    return Math.max(entry.nextAttemptAt, entry.inFlightUntil ?? 0);
+}
+
+export function createOfflineQueue(options: OfflineQueueOptions): OfflineQueue {
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let flushing = false;
+    let running = false;
+
+    function read(): QueuedPayload[] {
+        const entries = readStorage<QueuedPayload[]>(options.storageKey);
+        return Array.isArray(entries) ? entries : [];
+    }
+
+    function write(entries: QueuedPayload[]): void {
+        if (!writeStorage(options.storageKey, entries)) {
+            options.warn('Failed to persist offline queue');
+        }
+    }
+
+    function prune(entries: QueuedPayload[]): QueuedPayload[] {
+        const cutoff = Date.now() - options.ttl;
+        const fresh = entries.filter((entry) => entry.createdAt > cutoff);
+        if (fresh.length < entries.length) {
+            options.log(
+                `Discarded ${entries.length - fresh.length} expired queued payload(s)`,
+            );
+        }
+        return fresh;
+    }
+
+    function update(
+        id: string,
+        change: (entry: QueuedPayload) => QueuedPayload | null,
+    ): void {
+        // Re-read storage so entries enqueued during a send are not lost
+        const entries: QueuedPayload[] = [];
+        for (const entry of read()) {
+            const next = entry.id === id ? change(entry) : entry;
+            if (next) {
+                entries.push(next);
+            }
+        }
+        write(entries);
+    }
+
+    /**
+     * Mark an entry as being sent, returning false when it was removed or
+     * is being sent by another tab or tracker
+     */
+    function claim(id: string): boolean {
+        const now = Date.now();
+        let claimed = false;
+        const entries = read().map((entry) => {
+            if (entry.id !== id || (entry.inFlightUntil ?? 0) > now) {
+                return entry;
+            }
+            claimed = true;
+            return { ...entry, inFlightUntil: now + CLAIM_DURATION };
+        });
+        if (claimed) {
+            write(entries);
+        }
+        return claimed;
+    }
+
+    function getDelay(attempts: number): number {
+        return Math.min(
+            options.baseDelay * Math.pow(2, attempts - 1),
+            options.maxDelay,
+        );
+    }
+
+    function schedule(): void {
+        if (retryTimer) {
+            clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+        if (!running) return;
+
+        const entries = read();
+        if (entries.length === 0) return;
+
+        const next = Math.min(...entries.map(getAvailableAt));
+        retryTimer = setTimeout(
+            () => {
+                retryTimer = null;
+                flush();
+            },
+            Math.max(0, next - Date.now()),
+        );
+    }
+
+    function enqueue(payload: Record<string, unknown>): void {
+        const now = Date.now();
+        const entries = prune(read());
+
+        entries.push({
+            id: generateUniqueId(),
+            payload,
+            attempts: 1,
+            createdAt: now,
+            nextAttemptAt: now + getDelay(1),
+        });
+
+        const overflow = entries.length - options.maxSize;
+        if (overflow > 0) {
+            entries.splice(0, overflow);
+            options.warn(
+                `Offline queue full, dropped ${overflow} oldest payload(s)`,
+            );
+        }
+
+        write(entries);
+        options.log('Queued payload for retry:', payload);
+        schedule();
+    }
+
+    async function flush(force = false): Promise<void> {
+        if (flushing) return;
+        flushing = true;
+
+        try {
+            const entries = prune(read());
+            write(entries);
+
+            for (const entry of entries) {
+                // stop() and clear() end the replay, e.g. when consent is denied
+                if (!running) break;
+                if (!force && entry.nextAttemptAt > Date.now()) continue;
+                if (!claim(entry.id)) continue;
+
+                try {
+                    await options.send(entry.payload);
+                    update(entry.id, () => null);
+                    options.log('Replayed queued payload:', entry.payload);
+                } catch (error) {
+                    const attempts = entry.attempts + 1;
+                    update(entry.id, (current) => ({
+                        ...current,
+                        attempts,
+                        nextAttemptAt: Date.now() + getDelay(attempts),
+                        inFlightUntil: undefined,
+                    }));
+                    options.warn('Failed to replay queued payload:', error);
+                    // Still offline or the collector is down, wait for backoff
+                    break;
+                }
+            }
+        } finally {
+            flushing = false;
+            schedule();
+        }
+    }
+
+    function handleOnline(): void {
+        options.log('Back online, flushing offline queue');
+        flush(true);
+    }
+
+    return {
+        enqueue,
+        flush,
+        start: () => {
+            if (running) return;
+            running = true;
+            window.addEventListener('online', handleOnline);
+            if (read().length > 0) {
+                flush(true);
+            }
+        },
+        stop: () => {
+            running = false;
+            window.removeEventListener('online', handleOnline);
+            schedule();
+        },
+        clear: () => {
+            removeStorage(options.storageKey);
+            schedule();
+        },
+        size: () => read().length,
+    };
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useRef,
+    useState,
+    type ReactNode,
+} from 'react';
+import { getInstance, init } from './index';
+import type {
+    EventMap,
+    EventProperties,
+    LwsAnalyticsConfig,
+    LwsAnalyticsInstance,
+    ValidEventMap,
+} from './types';
+
+const AnalyticsContext = createContext<LwsAnalyticsInstance | null>(null);
+
+// Instance created by a provider, destroyed when the last provider unmounts
+let ownedInstance: LwsAnalyticsInstance | null = null;
+let destroyTimer: ReturnType<typeof setTimeout> | null = null;
+
+export interface LwsAnalyticsProviderProps {
+    /**
+     * Passed to `init()` when the provider mounts. Changes after mounting
+     * are ignored.
+     */
+    config: LwsAnalyticsConfig;
+
+    children?: ReactNode;
+}
+
+/**
+ * Initialize LWS Analytics once for the app. The tracker survives the
+ * unmount and remount StrictMode does in development, and an instance
+ * created with `init()` before the provider mounts is reused.
+ */
+export function LwsAnalyticsProvider({
+    config,
+    children,
+}: LwsAnalyticsProviderProps) {
+    const [analytics, setAnalytics] = useState<LwsAnalyticsInstance | null>(
+        null,
+    );
+    const configRef = useRef(config);
+
+    useEffect(() => {
+        if (destroyTimer) {
+            clearTimeout(destroyTimer);
+            destroyTimer = null;
+        }
+
+        let current = getInstance();
+        if (!current) {
+            current = init(configRef.current);
+            ownedInstance = current;
+        }
+        setAnalytics(current);
+
+        return () => {
+            if (current !== ownedInstance) return;
+            // Destroying right away would send a second page view when
+            // StrictMode mounts the provider again
+            destroyTimer = setTimeout(() => {
+                destroyTimer = null;
+                ownedInstance?.destroy();
+                ownedInstance = null;
+            }, 0);
+        };
+    }, []);
+
+    return (
+        <AnalyticsContext.Provider value={analytics}>
+            {children}
+        </AnalyticsContext.Provider>
+    );
+}
+
+/**
+ * The instance of the surrounding `<LwsAnalyticsProvider>`, or `null` until
+ * it is initialized
+ */
+export function useLwsAnalytics<
+    Events extends ValidEventMap<Events> = EventMap,
+>(): LwsAnalyticsInstance<Events> | null {
+    return useContext(AnalyticsContext) as LwsAnalyticsInstance<Events> | null;
+}
+
+/**
+ * A stable function that tracks a custom event
+ */
+export function useTrackEvent<
+    Events extends ValidEventMap<Events> = EventMap,
+>(): LwsAnalyticsInstance<Events>['trackEvent'] {
+    const analytics = useContext(AnalyticsContext);
+    const analyticsRef = useRef(analytics);
+    analyticsRef.current = analytics;
+
+    return useCallback((name: string, props?: EventProperties) => {
+        const current = analyticsRef.current ?? getInstance();
+        if (!current) {
+            console.warn(
+                '[LWS Analytics] Not initialized. Render an LwsAnalyticsProvider first.',
+            );
+            return;
+        }
+        current.trackEvent(name, props);
+    }, []) as LwsAnalyticsInstance<Events>['trackEvent'];
+}
+
+export interface TrackOnViewProps {
+    /**
+     * Name of the custom event sent when the children become visible
+     */
+    event: string;
+
+    props?: EventProperties;
+
+    /**
+     * Share of the element that has to be visible, from 0 to 1
+     * (default: 0.5)
+     */
+    threshold?: number;
+
+    /**
+     * Only track the first time the element becomes visible (default: true)
+     */
+    once?: boolean;
+
+    className?: string;
+    children?: ReactNode;
+}
+
+/**
+ * Track a custom event when the children scroll into view
+ */
+export function TrackOnView({
+    event,
+    props,
+    threshold = 0.5,
+    once = true,
+    className,
+    children,
+}: TrackOnViewProps) {
+    const ref = useRef<HTMLDivElement>(null);
+    const tracked = useRef(false);
+    const trackEvent = useTrackEvent();
+    const eventRef = useRef({ event, props });
+    eventRef.current = { event, props };
+
+    useEffect(() => {
+        const element = ref.current;
+        if (
+            !element ||
+            (once && tracked.current) ||
+            typeof IntersectionObserver === 'undefined'
+        ) {
+            return;
+        }
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (!entries.some((entry) => entry.isIntersecting)) return;
+
+                tracked.current = true;
+                trackEvent(eventRef.current.event, eventRef.current.props);
+                if (once) {
+                    observer.disconnect();
+                }
+            },
+            { threshold },
+        );
+        observer.observe(element);
+
+        return () => observer.disconnect();
+    }, [threshold, once, trackEvent]);
+
+    return (
+        <div ref={ref} className={className}>
+            {children}
+        </div>
+    );
+}
+
+export type { LwsAnalyticsConfig, LwsAnalyticsInstance } from './types';
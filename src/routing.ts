@@ -0,0 +1,65 @@
+export type RoutingMode = 'history' | 'hash' | 'manual';
+
+export interface PageChangeRules {
+    mode: RoutingMode;
+
+    /**
+     * Changes that only affect the query string are not a new page
+     */
+    ignoreQueryChanges: boolean;
+
+    /**
+     * Changes that only affect the `#fragment` are not a new page. Ignored in
+     * hash mode, where the fragment holds the route.
+     */
+    ignoreHashChanges: boolean;
+}
+
+interface PageLocation {
+    origin: string;
+    pathname: string;
+    search: string;
+    hash: string;
+}
+
+function splitHash(hash: string): { route: string; query: string } {
+    const index = hash.indexOf('?');
+    return index === -1
+        ? { route: hash, query: '' }
+        : { route: hash.slice(0, index), query: hash.slice(index) };
+}
+
+/**
+ * Key identifying the page at a location. A navigation only counts as a new
+ * page when the key changes.
+ */
+export function getPageKey(
+    location: PageLocation,
+    rules: PageChangeRules,
+): string {
+    const base = location.origin + location.pathname;
+
+    if (rules.mode === 'hash') {
+        const { route, query } = splitHash(location.hash);
+        return rules.ignoreQueryChanges
+            ? base + route
+            : base + location.search + route + query;
+    }
+
+    return (
+        base +
+        (rules.ignoreQueryChanges ? '' : location.search) +
+        (rules.ignoreHashChanges ? '' : location.hash)
+    );
+}
+
+/**
+ * Path reported for the page. In hash mode the route in the fragment is
+ * appended, e.g. `/app/#/settings`.
+ */
+export function getPagePath(location: PageLocation, mode: RoutingMode): string {
+    if (mode !== 'hash') {
+        return location.pathname;
+    }
+    return location.pathname + splitHash(location.hash).route;
+}
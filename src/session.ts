@@ -0,0 +1,129 @@
+import {
+    generateUniqueId,
+    readStorage,
+    removeStorage,
+    writeStorage,
+} from './utils';
+
+/**
+ * When a session is rotated regardless of activity:
+ * - `local`: at midnight in the visitor's timezone
+ * - `utc`: at midnight UTC
+ * - `none`: only after the inactivity timeout
+ */
+export type SessionRotation = 'local' | 'utc' | 'none';
+
+export interface Session {
+    id: string;
+    startedAt: number;
+    lastActivityAt: number;
+    pageViews: number;
+}
+
+export interface SessionManagerOptions {
+    /**
+     * sessionStorage key the session is persisted under
+     */
+    storageKey: string;
+
+    /**
+     * Inactivity in milliseconds after which a new session starts
+     */
+    timeout: number;
+
+    rotation: SessionRotation;
+
+    /**
+     * Whether the session may be written to sessionStorage right now. When
+     * false the session is kept in memory only.
+     */
+    canPersist: () => boolean;
+
+    onStart: (session: Session) => void;
+    onEnd: (session: Session) => void;
+}
+
+export interface SessionManager {
+    /**
+     * Record activity and return the current session, starting a new one when
+     * the previous session expired
+     */
+    touch: (isPageView: boolean) => Session;
+
+    /**
+     * The current session without recording activity
+     */
+    current: () => Session | null;
+
+    /**
+     * Forget the current session and remove it from storage
+     */
+    clear: () => void;
+}
+
+function dayKey(timestamp: number, rotation: SessionRotation): string {
+    const date = new Date(timestamp);
+    return rotation === 'utc'
+        ? date.toISOString().slice(0, 10)
+        : `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+export function createSessionManager(
+    options: SessionManagerOptions,
+): SessionManager {
+    let session: Session | null = options.canPersist()
+        ? readStorage<Session>(options.storageKey, 'sessionStorage')
+        : null;
+
+    function isExpired(current: Session, now: number): boolean {
+        if (now - current.lastActivityAt > options.timeout) {
+            return true;
+        }
+        return (
+            options.rotation !== 'none' &&
+            dayKey(current.lastActivityAt, options.rotation) !==
+                dayKey(now, options.rotation)
+        );
+    }
+
+    function save(): void {
+        if (session && options.canPersist()) {
+            writeStorage(options.storageKey, session, 'sessionStorage');
+        }
+    }
+
+    return {
+        touch: (isPageView) => {
+            const now = Date.now();
+
+            if (session && isExpired(session, now)) {
+                const ended = session;
+                session = null;
+                options.onEnd(ended);
+            }
+
+            if (!session) {
+                session = {
+                    id: generateUniqueId(),
+                    startedAt: now,
+                    lastActivityAt: now,
+                    pageViews: 0,
+                };
+                options.onStart(session);
+            }
+
+            session.lastActivityAt = now;
+            if (isPageView) {
+                session.pageViews++;
+            }
+            save();
+
+            return session;
+        },
+        current: () => session,
+        clear: () => {
+            session = null;
+            removeStorage(options.storageKey, 'sessionStorage');
+        },
+    };
+}
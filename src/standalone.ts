@@ -1,8 +1,37 @@
+import { createCommercePlugin } from './commerce';
+import { createErrorTrackingPlugin } from './errors';
 import { init } from './index';
 
+const DEBUG_PARAM = 'lwsa_debug';
+const DEBUG_SCRIPT = 'debug.js';
+
+// The debug panel is a separate file next to this script, so it does not add
+// to the size of the script every visitor downloads
+function loadDebugPanel(scriptSrc: string | undefined): void {
+    if (!scriptSrc) {
+        console.warn(
+            '[LWS Analytics] Cannot locate the script to load the debug panel',
+        );
+        return;
+    }
+    const script = document.createElement('script');
+    script.src = new URL(DEBUG_SCRIPT, scriptSrc).href;
+    script.async = true;
+    document.head.appendChild(script);
+}
+
 (() => {
+    // Only available while the script itself is executing
+    const scriptSrc = (document.currentScript as HTMLScriptElement | null)?.src;
     const siteId = window.LWS_ANALYTICS_SITE_ID;
+    const endpoint = window.LWS_ANALYTICS_ENDPOINT;
     const debug = window.LWS_ANALYTICS_DEBUG ?? false;
+    const requireConsent = window.LWS_ANALYTICS_REQUIRE_CONSENT ?? false;
+    const anonymous = window.LWS_ANALYTICS_ANONYMOUS ?? false;
+    const respectDnt = window.LWS_ANALYTICS_RESPECT_DNT;
+    const respectGpc = window.LWS_ANALYTICS_RESPECT_GPC;
+    const routingMode = window.LWS_ANALYTICS_ROUTING_MODE;
+    const transport = window.LWS_ANALYTICS_TRANSPORT;
 
     if (!siteId) {
         if (debug) {
@@ -13,5 +42,32 @@ import { init } from './index';
         return;
     }
 
-    init({ siteId, debug });
+    // Manual error and commerce tracking stay available on window.LwsAnalytics
+    const errors = createErrorTrackingPlugin({ captureUncaught: false });
+    const commerce = createCommercePlugin();
+
+    init({
+        siteId,
+        endpoint,
+        debug,
+        requireConsent,
+        anonymous,
+        respectDnt,
+        respectGpc,
+        routingMode,
+        transport,
+        plugins: [errors, commerce],
+    });
+    Object.assign(window.LwsAnalytics!, {
+        trackError: errors.trackError,
+        trackProductView: commerce.trackProductView,
+        trackAddToCart: commerce.trackAddToCart,
+        trackRemoveFromCart: commerce.trackRemoveFromCart,
+        trackCheckoutStep: commerce.trackCheckoutStep,
+        trackPurchase: commerce.trackPurchase,
+    });
+
+    if (new URLSearchParams(window.location.search).get(DEBUG_PARAM) === '1') {
+        loadDebugPanel(scriptSrc);
+    }
 })();
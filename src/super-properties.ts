@@ -0,0 +1,124 @@
+import type { EventProperties, EventPropertyValue } from './types';
+import { readStorage, removeStorage, writeStorage } from './utils';
+
+/**
+ * A static value, or a function evaluated every time an event is tracked
+ */
+export type SuperPropertyValue =
+    | EventPropertyValue
+    | (() => EventPropertyValue);
+
+export type SuperProperties = Record<string, SuperPropertyValue>;
+
+export interface SuperPropertiesOptions {
+    /**
+     * localStorage key static values are persisted under
+     */
+    storageKey: string;
+
+    /**
+     * Persist static values across page loads
+     */
+    persist: boolean;
+
+    /**
+     * Whether values may be written to localStorage right now
+     */
+    canPersist: () => boolean;
+
+    warn: (...args: unknown[]) => void;
+}
+
+export interface SuperPropertiesStore {
+    register: (props: SuperProperties) => void;
+
+    /**
+     * Register only the properties that are not registered yet
+     */
+    registerOnce: (props: SuperProperties) => void;
+
+    unregister: (key: string) => void;
+
+    /**
+     * Current values with functions evaluated
+     */
+    resolve: () => EventProperties;
+
+    /**
+     * Write static values to storage, e.g. once consent is given
+     */
+    save: () => void;
+
+    /**
+     * Unregister everything and remove persisted values
+     */
+    clear: () => void;
+}
+
+export function createSuperProperties(
+    options: SuperPropertiesOptions,
+): SuperPropertiesStore {
+    let properties: SuperProperties =
+        options.persist && options.canPersist()
+            ? (readStorage<EventProperties>(options.storageKey) ?? {})
+            : {};
+
+    function save(): void {
+        if (!options.persist || !options.canPersist()) return;
+
+        // Functions cannot be serialized, they only live for this page
+        const values: EventProperties = {};
+        for (const [key, value] of Object.entries(properties)) {
+            if (typeof value !== 'function') {
+                values[key] = value;
+            }
+        }
+        writeStorage(options.storageKey, values);
+    }
+
+    function register(props: SuperProperties, once: boolean): void {
+        if (!props || typeof props !== 'object' || Array.isArray(props)) {
+            options.warn(
+                'Super properties must be a plain object, got:',
+                props,
+            );
+            return;
+        }
+        for (const [key, value] of Object.entries(props)) {
+            if (once && Object.prototype.hasOwnProperty.call(properties, key)) {
+                continue;
+            }
+            properties[key] = value;
+        }
+        save();
+    }
+
+    return {
+        register: (props) => register(props, false),
+        registerOnce: (props) => register(props, true),
+        unregister: (key) => {
+            delete properties[key];
+            save();
+        },
+        resolve: () => {
+            const values: EventProperties = {};
+            for (const [key, value] of Object.entries(properties)) {
+                if (typeof value !== 'function') {
+                    values[key] = value;
+                    continue;
+                }
+                try {
+                    values[key] = value();
+                } catch (error) {
+                    options.warn(`Super property "${key}" failed:`, error);
+                }
+            }
+            return values;
+        },
+        save,
+        clear: () => {
+            properties = {};
+            removeStorage(options.storageKey);
+        },
+    };
+}
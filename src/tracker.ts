@@ -0,0 +1,869 @@
+import { createBatcher, type Batcher } from './batch';
+import { createClickTrackingPlugin } from './clicks';
+import type { ConsentState } from './consent';
+import { subscribeToNavigation } from './history';
+import { createPluginPipeline, type LwsAnalyticsPlugin } from './plugins';
+import { detectPrivacySignals, resolvePrivacyPolicy } from './privacy';
+import { createOfflineQueue, type OfflineQueue } from './queue';
+import { getPageKey, getPagePath, type PageChangeRules } from './routing';
+import {
+    createSessionManager,
+    type Session,
+    type SessionManager,
+} from './session';
+import {
+    createSuperProperties,
+    type SuperProperties,
+    type SuperPropertiesStore,
+} from './super-properties';
+import type {
+    EventMap,
+    EventProperties,
+    EventPropertyValue,
+    LwsAnalyticsConfig,
+    LwsAnalyticsInstance,
+    PageViewOptions,
+    PayloadInspection,
+    PayloadInspector,
+    PayloadStatus,
+    ValidEventMap,
+} from './types';
+import { resolveTransport } from './transport';
+import { createUrlSanitizer } from './url';
+import {
+    byteLength,
+    generateUniqueId,
+    readStorage,
+    removeStorage,
+    writeStorage,
+} from './utils';
+
+export const DEFAULT_ENDPOINT = 'https://dashboard.lws-analytics.eu/api/track';
+
+const STORAGE_KEY = 'lws_analytics_client_id';
+const USER_STORAGE_KEY = 'lws_analytics_user';
+const QUEUE_STORAGE_KEY = 'lws_analytics_queue';
+const SESSION_STORAGE_KEY = 'lws_analytics_session';
+const SUPER_PROPERTIES_STORAGE_KEY = 'lws_analytics_super_properties';
+const MAX_CONSENT_BUFFER = 50;
+const MAX_INSPECTION_HISTORY = 100;
+
+const MAX_EVENT_PROPERTIES = 25;
+const MAX_PROPERTY_KEY_LENGTH = 64;
+const MAX_PROPERTY_VALUE_LENGTH = 255;
+const MAX_PROPERTIES_SIZE = 2048;
+
+const EVENT_TYPES = {
+    PAGE_VIEW: 'page_view',
+    CUSTOM: 'custom',
+    SESSION_START: 'session_start',
+    SESSION_END: 'session_end',
+} as const;
+
+interface IdentifiedUser {
+    id: string;
+    traits?: EventProperties;
+}
+
+function getClientId(): string {
+    try {
+        let clientId = localStorage.getItem(STORAGE_KEY);
+        if (!clientId) {
+            clientId = generateUniqueId();
+            localStorage.setItem(STORAGE_KEY, clientId);
+        }
+        return clientId;
+    } catch {
+        // localStorage unavailable (private browsing, etc.)
+        return 'session_' + generateUniqueId();
+    }
+}
+
+function isPropertyValue(value: unknown): value is EventPropertyValue {
+    if (typeof value === 'number') {
+        return Number.isFinite(value);
+    }
+    return (
+        value === null ||
+        typeof value === 'string' ||
+        typeof value === 'boolean'
+    );
+}
+
+function truncateValue(value: EventPropertyValue): EventPropertyValue {
+    return typeof value === 'string' && value.length > MAX_PROPERTY_VALUE_LENGTH
+        ? value.slice(0, MAX_PROPERTY_VALUE_LENGTH)
+        : value;
+}
+
+/**
+ * Create an independent tracker with its own config, queue and listeners.
+ * Several trackers can run side by side, e.g. to report to two sites.
+ */
+export function createTracker<Events extends ValidEventMap<Events> = EventMap>(
+    options: LwsAnalyticsConfig,
+): LwsAnalyticsInstance<Events> {
+    if (typeof window === 'undefined') {
+        console.warn(
+            '[LWS Analytics] Cannot initialize in non-browser environment',
+        );
+        // Return a no-op instance for SSR
+        return {
+            trackPageView: () => {},
+            trackEvent: () => {},
+            setConsent: () => {},
+            identify: () => {},
+            reset: () => {},
+            register: () => {},
+            registerOnce: () => {},
+            unregister: () => {},
+            inspect: () => () => {},
+            setPaused: () => {},
+            getSentEvents: () => [],
+            clearSentEvents: () => {},
+            use: () => {},
+            destroy: () => {},
+        };
+    }
+
+    // Validate config
+    if (!options.siteId) {
+        console.warn('[LWS Analytics] No site ID configured');
+    }
+    // Set config with defaults
+    const config: LwsAnalyticsConfig = {
+        trackPageViewOnInit: true,
+        trackSpaNavigation: true,
+        trackClicks: true,
+        queueOffline: true,
+        ...options,
+    };
+
+    let destroyed = false;
+    let lastPageKey: string | null = null;
+    let pageViewTracked = false;
+    let queue: OfflineQueue | null = null;
+    let batcher: Batcher | null = null;
+    let consentGranted: boolean | null = null;
+    let consentBuffer: Record<string, unknown>[] = [];
+    let unsubscribeConsent: (() => void) | null = null;
+    let unsubscribeNavigation: (() => void) | null = null;
+    let trackingDisabled = false;
+    let sessions: SessionManager | null = null;
+    let superProperties: SuperPropertiesStore | null = null;
+    let paused = false;
+    let pausedPayloads: Record<string, unknown>[] = [];
+    const inspectors = new Set<PayloadInspector>();
+    // Replayed to inspectors that subscribe later, e.g. the debug panel
+    let inspections: PayloadInspection[] = [];
+    // Identified user, kept in memory until storage may be used
+    let user: IdentifiedUser | null = null;
+
+    const routing: PageChangeRules = {
+        mode: config.routingMode ?? 'history',
+        ignoreQueryChanges: !!config.ignoreQueryChanges,
+        ignoreHashChanges: !!config.ignoreHashChanges,
+    };
+
+    const sanitizer = createUrlSanitizer({
+        allowedParams: config.allowedQueryParams,
+        excludedParams: config.excludedQueryParams ?? [],
+        stripHash: !!config.stripHash,
+        pathMasks: config.maskPaths ?? [],
+        redactEmails: config.redactEmails ?? true,
+    });
+
+    const transport = resolveTransport(config.transport, warn);
+
+    const plugins = createPluginPipeline({
+        context: {
+            config,
+            trackPageView: (options) => trackPageViewInternal(options),
+            trackEvent: trackEventInternal,
+            track: trackPluginEvent,
+            getPath: getCurrentPath,
+            sanitizeUrl: sanitizer.url,
+            sanitizePath: sanitizer.path,
+            flush: () => batcher?.flush(true),
+            canPersist: canUseStorage,
+            log,
+            warn,
+        },
+        warn,
+    });
+
+    function log(...args: unknown[]): void {
+        if (config.debug) {
+            console.log('[LWS Analytics]', ...args);
+        }
+    }
+
+    function warn(...args: unknown[]): void {
+        if (config.debug) {
+            console.warn('[LWS Analytics]', ...args);
+        }
+    }
+
+    function canUseStorage(): boolean {
+        if (trackingDisabled || config.anonymous || consentGranted === false) {
+            return false;
+        }
+        return !config.requireConsent || consentGranted === true;
+    }
+
+    function inspect(
+        status: PayloadStatus,
+        payload: Record<string, unknown>,
+        reason?: string,
+    ): void {
+        const inspection: PayloadInspection = {
+            status,
+            payload,
+            ...(reason && { reason }),
+            timestamp: Date.now(),
+        };
+        inspections.push(inspection);
+        if (inspections.length > MAX_INSPECTION_HISTORY) {
+            inspections.shift();
+        }
+        inspectors.forEach((inspector) =>
+            notifyInspector(inspector, inspection),
+        );
+    }
+
+    function notifyInspector(
+        inspector: PayloadInspector,
+        inspection: PayloadInspection,
+    ): void {
+        try {
+            inspector(inspection);
+        } catch (error) {
+            warn('Payload inspector failed:', error);
+        }
+    }
+
+    function getCurrentPath(): string {
+        return getPagePath(window.location, routing.mode);
+    }
+
+    function getUser(): IdentifiedUser | null {
+        return canUseStorage()
+            ? readStorage<IdentifiedUser>(USER_STORAGE_KEY)
+            : user;
+    }
+
+    function resolveEndpoint(value: string | undefined): string {
+        if (!value) {
+            return DEFAULT_ENDPOINT;
+        }
+
+        // First-party proxy paths are resolved against the current origin
+        if (value.startsWith('/') && !value.startsWith('//')) {
+            return new URL(value, window.location.origin).href;
+        }
+
+        try {
+            const url = new URL(value);
+            if (url.protocol === 'https:' || url.protocol === 'http:') {
+                return url.href;
+            }
+            warn('Endpoint must use http(s), got:', value);
+        } catch {
+            warn('Invalid endpoint URL:', value);
+        }
+
+        warn('Falling back to default endpoint:', DEFAULT_ENDPOINT);
+        return DEFAULT_ENDPOINT;
+    }
+
+    function sanitizeProperties(props: unknown): EventProperties | null {
+        if (props === undefined || props === null) {
+            return null;
+        }
+        if (typeof props !== 'object' || Array.isArray(props)) {
+            warn('Event properties must be a plain object, got:', props);
+            return null;
+        }
+
+        const result: EventProperties = {};
+        let count = 0;
+
+        for (const [key, value] of Object.entries(props)) {
+            if (count >= MAX_EVENT_PROPERTIES) {
+                warn(
+                    `Too many event properties, keeping the first ${MAX_EVENT_PROPERTIES}`,
+                );
+                break;
+            }
+            if (!key || key.length > MAX_PROPERTY_KEY_LENGTH) {
+                warn('Dropping event property with invalid key:', key);
+                continue;
+            }
+            if (!isPropertyValue(value)) {
+                warn(
+                    `Dropping event property "${key}" with invalid value:`,
+                    value,
+                );
+                continue;
+            }
+
+            result[key] = truncateValue(value);
+            count++;
+        }
+
+        if (count === 0) {
+            return null;
+        }
+        if (byteLength(JSON.stringify(result)) > MAX_PROPERTIES_SIZE) {
+            warn(
+                `Event properties exceed ${MAX_PROPERTIES_SIZE} bytes, dropping them`,
+            );
+            return null;
+        }
+
+        return result;
+    }
+
+    // Event properties are kept as-is, super properties fill the room left
+    // under the limits
+    function mergeSuperProperties(
+        store: SuperPropertiesStore,
+        eventProperties: EventProperties | null,
+    ): EventProperties | null {
+        let result: EventProperties = { ...eventProperties };
+        let count = Object.keys(result).length;
+
+        for (const [key, value] of Object.entries(store.resolve())) {
+            if (Object.prototype.hasOwnProperty.call(result, key)) continue;
+
+            if (count >= MAX_EVENT_PROPERTIES) {
+                warn(
+                    `Too many event properties, dropping super property "${key}"`,
+                );
+                continue;
+            }
+            if (!key || key.length > MAX_PROPERTY_KEY_LENGTH) {
+                warn('Dropping super property with invalid key:', key);
+                continue;
+            }
+            if (!isPropertyValue(value)) {
+                warn(
+                    `Dropping super property "${key}" with invalid value:`,
+                    value,
+                );
+                continue;
+            }
+
+            const merged = { ...result, [key]: truncateValue(value) };
+            if (byteLength(JSON.stringify(merged)) > MAX_PROPERTIES_SIZE) {
+                warn(
+                    `Event properties exceed ${MAX_PROPERTIES_SIZE} bytes, dropping super property "${key}"`,
+                );
+                continue;
+            }
+            result = merged;
+            count++;
+        }
+
+        return count > 0 ? result : null;
+    }
+
+    function buildPayload(
+        type: string,
+        name: string,
+        props?: EventProperties,
+        session?: Session | null,
+    ): Record<string, unknown> {
+        const eventProperties = sanitizeProperties(props);
+        // Event properties win over super properties with the same key
+        const properties = superProperties
+            ? mergeSuperProperties(superProperties, eventProperties)
+            : eventProperties;
+        const currentUser = getUser();
+        const currentSession =
+            session === undefined
+                ? sessions?.touch(type === EVENT_TYPES.PAGE_VIEW)
+                : session;
+
+        return {
+            identifier: config.siteId,
+            type: type,
+            name: name,
+            ...(properties && { props: properties }),
+            client_id: canUseStorage() ? getClientId() : null,
+            ...(currentUser && {
+                user_id: currentUser.id,
+                ...(currentUser.traits && { user_traits: currentUser.traits }),
+            }),
+            ...(currentSession && {
+                session_id: currentSession.id,
+                session_page_views: currentSession.pageViews,
+            }),
+            url: sanitizer.url(window.location.href),
+            path: sanitizer.path(getCurrentPath()),
+            referer: document.referrer
+                ? sanitizer.url(document.referrer)
+                : null,
+            user_agent: navigator.userAgent,
+            language: navigator.language || null,
+            device_width: window.screen.width,
+            device_height: window.screen.height,
+            timezone_offset: new Date().getTimezoneOffset(),
+            timestamp: new Date().toISOString(),
+        };
+    }
+
+    function deliverPayloads(
+        payloads: Record<string, unknown>[],
+        unloading = false,
+    ): void {
+        const activeQueue = queue;
+        if (activeQueue && navigator.onLine === false) {
+            payloads.forEach((payload) => {
+                activeQueue.enqueue(payload);
+                inspect('queued', payload, 'offline');
+            });
+            return;
+        }
+
+        // A single payload is sent as-is so batching stays compatible with
+        // collectors that only understand the single-event format
+        const body = payloads.length === 1 ? payloads[0] : payloads;
+        const endpoint = config.endpoint ?? DEFAULT_ENDPOINT;
+
+        if (unloading && transport.sendOnUnload?.(endpoint, body)) {
+            log('Sent payloads on unload:', payloads.length);
+            payloads.forEach((payload) => inspect('sent', payload, 'beacon'));
+            plugins.afterSend(payloads);
+            return;
+        }
+
+        transport
+            .send(endpoint, body)
+            .then(() => {
+                payloads.forEach((payload) => inspect('sent', payload));
+                plugins.afterSend(payloads);
+            })
+            .catch((error) => {
+                warn('Failed to send payload:', error);
+                payloads.forEach((payload) => {
+                    activeQueue?.enqueue(payload);
+                    inspect(
+                        activeQueue ? 'queued' : 'failed',
+                        payload,
+                        String(error),
+                    );
+                });
+            });
+    }
+
+    function dispatchPayload(payload: Record<string, unknown>): void {
+        if (batcher) {
+            batcher.add(payload);
+            return;
+        }
+        deliverPayloads([payload]);
+    }
+
+    function setPausedInternal(value: boolean): void {
+        paused = value;
+        log(paused ? 'Sending paused' : 'Sending resumed');
+        if (paused) return;
+
+        const held = pausedPayloads;
+        pausedPayloads = [];
+        held.forEach(dispatchPayload);
+    }
+
+    function sendPayload(original: Record<string, unknown>): void {
+        if (destroyed) {
+            warn('Tracker was destroyed, dropping payload:', original);
+            return;
+        }
+        if (trackingDisabled) {
+            log(
+                'Tracking disabled by privacy signal, dropping payload:',
+                original,
+            );
+            inspect('dropped', original, 'privacy');
+            return;
+        }
+        if (consentGranted === false) {
+            log('Consent denied, dropping payload:', original);
+            inspect('dropped', original, 'consent');
+            return;
+        }
+        if (config.requireConsent && consentGranted !== true) {
+            if (consentBuffer.length >= MAX_CONSENT_BUFFER) {
+                const oldest = consentBuffer.shift()!;
+                warn('Consent buffer full, dropping oldest payload');
+                inspect('dropped', oldest, 'consent buffer full');
+            }
+            consentBuffer.push(original);
+            log('Buffering payload until consent is given:', original);
+            inspect('buffered', original, 'consent');
+            return;
+        }
+
+        const payload = plugins.beforeSend(original);
+        if (!payload) {
+            inspect('dropped', original, 'plugin');
+            return;
+        }
+
+        if (paused) {
+            pausedPayloads.push(payload);
+            log('Sending paused, holding payload:', payload);
+            inspect('paused', payload);
+            return;
+        }
+
+        log('Sending payload:', payload);
+        dispatchPayload(payload);
+    }
+
+    function handleSessionStart(session: Session): void {
+        log('Session started:', session.id);
+        sendPayload(
+            buildPayload(
+                EVENT_TYPES.SESSION_START,
+                'Session start',
+                undefined,
+                session,
+            ),
+        );
+    }
+
+    function handleSessionEnd(session: Session): void {
+        log('Session ended:', session.id);
+        sendPayload(
+            buildPayload(
+                EVENT_TYPES.SESSION_END,
+                'Session end',
+                {
+                    duration: Math.round(
+                        (session.lastActivityAt - session.startedAt) / 1000,
+                    ),
+                    page_views: session.pageViews,
+                },
+                session,
+            ),
+        );
+    }
+
+    function setConsentInternal(consent: ConsentState): void {
+        consentGranted = consent.analytics;
+        log('Consent updated:', consent);
+
+        if (consent.analytics) {
+            queue?.start();
+            if (user) {
+                writeStorage(USER_STORAGE_KEY, user);
+            }
+            superProperties?.save();
+            plugins.consentChange(true);
+
+            // Buffered payloads were built without touching storage
+            const buffered = consentBuffer;
+            consentBuffer = [];
+            buffered.forEach((payload) =>
+                sendPayload({
+                    ...payload,
+                    client_id: canUseStorage() ? getClientId() : null,
+                }),
+            );
+            return;
+        }
+
+        consentBuffer = [];
+        // Payloads accepted before the denial must not be sent after it
+        [...(batcher?.clear() ?? []), ...pausedPayloads].forEach((payload) =>
+            inspect('dropped', payload, 'consent'),
+        );
+        pausedPayloads = [];
+        queue?.stop();
+        queue?.clear();
+        sessions?.clear();
+        superProperties?.clear();
+        plugins.consentChange(false);
+        user = null;
+        removeStorage(USER_STORAGE_KEY);
+        removeStorage(STORAGE_KEY);
+    }
+
+    function identifyInternal(userId: string, traits?: EventProperties): void {
+        if (!userId) {
+            warn('identify() requires a user ID');
+            return;
+        }
+        if (trackingDisabled || config.anonymous) {
+            log('Anonymous mode, ignoring identify()');
+            return;
+        }
+
+        const properties = sanitizeProperties(traits);
+        user = {
+            id: String(userId),
+            ...(properties && { traits: properties }),
+        };
+        if (canUseStorage()) {
+            writeStorage(USER_STORAGE_KEY, user);
+        }
+        log('Identified user:', user.id);
+    }
+
+    function resetInternal(): void {
+        user = null;
+        removeStorage(USER_STORAGE_KEY);
+        // A new client ID is generated for the next payload
+        removeStorage(STORAGE_KEY);
+        sessions?.clear();
+        superProperties?.clear();
+        plugins.reset();
+        log('Reset user and client ID');
+    }
+
+    function trackPageViewInternal(options: PageViewOptions = {}): void {
+        // Virtual page views (wizard steps, modals) override the location
+        let virtual: URL | null = null;
+        if (options.path) {
+            try {
+                virtual = new URL(options.path, window.location.origin);
+            } catch {
+                warn('Invalid page view path, dropping it:', options.path);
+                return;
+            }
+        }
+        // Routers call trackPageView() themselves in manual mode, so each
+        // page view after the first one is a route change
+        if (routing.mode === 'manual' && pageViewTracked) {
+            handleRouteChange();
+        }
+        pageViewTracked = true;
+
+        sendPayload({
+            ...buildPayload(EVENT_TYPES.PAGE_VIEW, 'Page view'),
+            ...(virtual && {
+                url: sanitizer.url(virtual.href),
+                path: sanitizer.path(getPagePath(virtual, routing.mode)),
+            }),
+            ...(options.title && { title: options.title }),
+        });
+        plugins.pageView();
+    }
+
+    function handleDomContentLoaded(): void {
+        trackPageViewInternal();
+    }
+
+    function trackEventInternal(name: string, props?: EventProperties): void {
+        if (!name) {
+            warn('trackEvent() requires an event name');
+            return;
+        }
+        sendPayload(buildPayload(EVENT_TYPES.CUSTOM, name, props));
+    }
+
+    function trackPluginEvent(
+        type: string,
+        name: string,
+        props?: EventProperties,
+        fields: Record<string, unknown> = {},
+    ): void {
+        const { url, path, ...rest } = fields;
+        sendPayload({
+            ...buildPayload(type, name, props),
+            ...rest,
+            ...(typeof url === 'string' && { url: sanitizer.url(url) }),
+            ...(typeof path === 'string' && { path: sanitizer.path(path) }),
+        });
+    }
+
+    // Close the previous route before the page view of the next one
+    function handleRouteChange(): void {
+        plugins.routeChange();
+    }
+
+    function handleUrlChange(): void {
+        const pageKey = getPageKey(window.location, routing);
+        if (pageKey === lastPageKey) {
+            return;
+        }
+
+        lastPageKey = pageKey;
+        handleRouteChange();
+        trackPageViewInternal();
+    }
+
+    config.endpoint = resolveEndpoint(config.endpoint);
+    log('Using endpoint:', config.endpoint);
+    log('Using transport:', transport.name);
+
+    // Apply Do Not Track / Global Privacy Control policies
+    const signals = detectPrivacySignals();
+    if (signals.doNotTrack || signals.globalPrivacyControl) {
+        const policy = resolvePrivacyPolicy(signals, {
+            dnt: config.respectDnt,
+            gpc: config.respectGpc,
+        });
+        log('Privacy signals detected:', signals, 'applying policy:', policy);
+
+        if (policy === 'disable') {
+            trackingDisabled = true;
+        } else if (policy === 'anonymous') {
+            config.anonymous = true;
+        }
+    }
+
+    // Setup offline queue and replay anything left from a previous page
+    if (config.queueOffline && !config.anonymous) {
+        const endpoint = config.endpoint;
+        queue = createOfflineQueue({
+            storageKey: `${QUEUE_STORAGE_KEY}:${config.siteId}`,
+            maxSize: config.queueMaxSize ?? 100,
+            ttl: config.queueTtl ?? 24 * 60 * 60 * 1000,
+            baseDelay: 1000,
+            maxDelay: 5 * 60 * 1000,
+            send: (payload) =>
+                transport.send(endpoint, payload).then(() => {
+                    inspect('sent', payload, 'replayed');
+                    plugins.afterSend([payload]);
+                }),
+            log,
+            warn,
+        });
+        if (canUseStorage()) {
+            queue.start();
+        }
+    }
+
+    // Setup batching, flushed with sendBeacon when the page is hidden
+    if (config.batchEvents) {
+        batcher = createBatcher({
+            maxSize: config.batchSize ?? 10,
+            interval: config.batchInterval ?? 5000,
+            send: deliverPayloads,
+        });
+        batcher.start();
+    }
+
+    // Setup session tracking, restored from sessionStorage across reloads
+    if (config.trackSessions) {
+        sessions = createSessionManager({
+            storageKey: `${SESSION_STORAGE_KEY}:${config.siteId}`,
+            timeout: config.sessionTimeout ?? 30 * 60 * 1000,
+            rotation: config.sessionRotation ?? 'local',
+            canPersist: canUseStorage,
+            onStart: handleSessionStart,
+            onEnd: handleSessionEnd,
+        });
+    }
+
+    // Setup super properties, merged into the props of every event
+    superProperties = createSuperProperties({
+        storageKey: `${SUPER_PROPERTIES_STORAGE_KEY}:${config.siteId}`,
+        persist: !!config.persistSuperProperties,
+        canPersist: canUseStorage,
+        warn,
+    });
+
+    // Listen for consent decisions from a consent management platform
+    if (config.consentAdapter) {
+        unsubscribeConsent =
+            config.consentAdapter.subscribe(setConsentInternal);
+    }
+
+    // Setup plugins, click tracking is a built-in plugin
+    if (config.trackClicks) {
+        plugins.use(createClickTrackingPlugin());
+    }
+    config.plugins?.forEach((plugin) => plugins.use(plugin));
+
+    // Setup SPA navigation tracking, manual routing only tracks explicit calls
+    if (config.trackSpaNavigation && routing.mode !== 'manual') {
+        lastPageKey = getPageKey(window.location, routing);
+        unsubscribeNavigation = subscribeToNavigation(handleUrlChange);
+    }
+
+    // Track initial page view
+    if (config.trackPageViewOnInit) {
+        if (document.readyState === 'loading') {
+            document.addEventListener(
+                'DOMContentLoaded',
+                handleDomContentLoaded,
+                { once: true },
+            );
+        } else {
+            trackPageViewInternal();
+        }
+    }
+
+    log('Initialized with config:', config);
+
+    return {
+        trackPageView: trackPageViewInternal,
+        trackEvent: trackEventInternal,
+        setConsent: setConsentInternal,
+        identify: identifyInternal,
+        reset: resetInternal,
+        register: (props: SuperProperties) => superProperties?.register(props),
+        registerOnce: (props: SuperProperties) =>
+            superProperties?.registerOnce(props),
+        unregister: (key: string) => superProperties?.unregister(key),
+        inspect: (inspector: PayloadInspector) => {
+            inspections.forEach((inspection) =>
+                notifyInspector(inspector, inspection),
+            );
+            inspectors.add(inspector);
+            return () => {
+                inspectors.delete(inspector);
+            };
+        },
+        setPaused: setPausedInternal,
+        getSentEvents: () => {
+            if (!transport.getSentEvents) {
+                warn('getSentEvents() requires the memory transport');
+                return [];
+            }
+            return transport.getSentEvents();
+        },
+        clearSentEvents: () => transport.clearSentEvents?.(),
+        use: (plugin: LwsAnalyticsPlugin) => {
+            if (destroyed) {
+                warn(
+                    'Tracker was destroyed, not registering plugin:',
+                    plugin.name,
+                );
+                return;
+            }
+            plugins.use(plugin);
+        },
+        destroy: () => {
+            if (destroyed) return;
+
+            document.removeEventListener(
+                'DOMContentLoaded',
+                handleDomContentLoaded,
+            );
+            unsubscribeNavigation?.();
+            unsubscribeNavigation = null;
+            // Send what is still batched before the tracker goes away
+            batcher?.stop();
+            batcher = null;
+            plugins.teardown();
+            // Queued payloads stay in storage for the next tracker
+            queue?.stop();
+            queue = null;
+            unsubscribeConsent?.();
+            unsubscribeConsent = null;
+            consentBuffer = [];
+            sessions = null;
+            // Payloads held while sending was paused are discarded
+            pausedPayloads = [];
+            inspectors.clear();
+            inspections = [];
+            destroyed = true;
+            log('Destroyed');
+        },
+    };
+}
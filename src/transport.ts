@@ -0,0 +1,171 @@
+/**
+ * A single payload, or several payloads when batching is enabled
+ */
+export type TransportBody = Record<string, unknown> | Record<string, unknown>[];
+
+export interface Transport {
+    /**
+     * Name used in log messages
+     */
+    name: string;
+
+    /**
+     * Deliver a body, rejecting when it should be retried later
+     */
+    send: (endpoint: string, body: TransportBody) => Promise<void>;
+
+    /**
+     * Deliver a body while the page is being hidden. Return false when that
+     * is not possible, the body is then sent with `send`.
+     */
+    sendOnUnload?: (endpoint: string, body: TransportBody) => boolean;
+
+    /**
+     * Payloads recorded by the transport, implemented by the memory transport
+     */
+    getSentEvents?: () => Record<string, unknown>[];
+
+    /**
+     * Forget recorded payloads, implemented by the memory transport
+     */
+    clearSentEvents?: () => void;
+}
+
+/**
+ * Built-in transports:
+ * - `fetch`: POST with `fetch`, `sendBeacon` when the page is hidden
+ * - `beacon`: always `sendBeacon`, falling back to `fetch`
+ * - `memory`: keep payloads in memory for tests, nothing is sent
+ * - `console`: print payloads to the console, nothing is sent
+ */
+export type TransportName = 'fetch' | 'beacon' | 'memory' | 'console';
+
+function toPayloads(body: TransportBody): Record<string, unknown>[] {
+    return Array.isArray(body) ? body : [body];
+}
+
+function postPayload(endpoint: string, body: TransportBody): Promise<void> {
+    return fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        keepalive: true,
+    }).then((response) => {
+        // Server errors and rate limiting are worth retrying, client errors are not
+        if (response.status >= 500 || response.status === 429) {
+            throw new Error(`Server responded with ${response.status}`);
+        }
+    });
+}
+
+function beaconPayload(endpoint: string, body: TransportBody): boolean {
+    if (typeof navigator.sendBeacon !== 'function') {
+        return false;
+    }
+    try {
+        return navigator.sendBeacon(
+            endpoint,
+            new Blob([JSON.stringify(body)], { type: 'application/json' }),
+        );
+    } catch {
+        return false;
+    }
+}
+
+export function createFetchTransport(): Transport {
+    return {
+        name: 'fetch',
+        send: postPayload,
+        sendOnUnload: beaconPayload,
+    };
+}
+
+export function createBeaconTransport(): Transport {
+    return {
+        name: 'beacon',
+        // sendBeacon refuses bodies over its size limit, fetch does not
+        send: (endpoint, body) =>
+            beaconPayload(endpoint, body)
+                ? Promise.resolve()
+                : postPayload(endpoint, body),
+        sendOnUnload: beaconPayload,
+    };
+}
+
+/**
+ * Keep payloads in memory instead of sending them, to assert tracking in
+ * tests without intercepting the network
+ */
+export function createMemoryTransport(): Transport {
+    let sent: Record<string, unknown>[] = [];
+
+    function record(body: TransportBody): void {
+        sent.push(...toPayloads(body));
+    }
+
+    return {
+        name: 'memory',
+        send: (_endpoint, body) => {
+            record(body);
+            return Promise.resolve();
+        },
+        sendOnUnload: (_endpoint, body) => {
+            record(body);
+            return true;
+        },
+        getSentEvents: () => sent.slice(),
+        clearSentEvents: () => {
+            sent = [];
+        },
+    };
+}
+
+/**
+ * Print payloads instead of sending them, e.g. during local development
+ */
+export function createConsoleTransport(): Transport {
+    function print(endpoint: string, body: TransportBody): void {
+        toPayloads(body).forEach((payload) =>
+            console.log('[LWS Analytics]', `Payload for ${endpoint}:`, payload),
+        );
+    }
+
+    return {
+        name: 'console',
+        send: (endpoint, body) => {
+            print(endpoint, body);
+            return Promise.resolve();
+        },
+        sendOnUnload: (endpoint, body) => {
+            print(endpoint, body);
+            return true;
+        },
+    };
+}
+
+const TRANSPORTS: Record<TransportName, () => Transport> = {
+    fetch: createFetchTransport,
+    beacon: createBeaconTransport,
+    memory: createMemoryTransport,
+    console: createConsoleTransport,
+};
+
+/**
+ * Resolve the `transport` config option. Unknown names fall back to `fetch`.
+ */
+export function resolveTransport(
+    option: TransportName | Transport | undefined,
+    warn: (...args: unknown[]) => void,
+): Transport {
+    if (option === undefined) {
+        return createFetchTransport();
+    }
+    if (typeof option !== 'string') {
+        return option;
+    }
+    if (Object.prototype.hasOwnProperty.call(TRANSPORTS, option)) {
+        return TRANSPORTS[option]();
+    }
+    warn('Unknown transport, falling back to fetch:', option);
+    return createFetchTransport();
+}
@@ -0,0 +1,344 @@
+import type { ConsentAdapter, ConsentState } from './consent';
+import type { LwsAnalyticsPlugin } from './plugins';
+import type { PrivacySignalPolicy } from './privacy';
+import type { RoutingMode } from './routing';
+import type { SessionRotation } from './session';
+import type { SuperProperties } from './super-properties';
+import type { Transport, TransportName } from './transport';
+import type { PathMask } from './url';
+
+export interface LwsAnalyticsConfig {
+    /**
+     * Site identifier (required)
+     */
+    siteId: string;
+
+    /**
+     * Endpoint events are sent to. Accepts an absolute http(s) URL or a
+     * first-party proxy path such as `/lwsa/track` (default: DEFAULT_ENDPOINT)
+     */
+    endpoint?: string;
+
+    /**
+     * Enable debug mode
+     */
+    debug?: boolean;
+
+    /**
+     * Automatically track page views on init (default: true)
+     */
+    trackPageViewOnInit?: boolean;
+
+    /**
+     * Enable SPA navigation tracking (default: true)
+     */
+    trackSpaNavigation?: boolean;
+
+    /**
+     * How SPA navigation is detected (default: 'history'):
+     * - 'history': `pushState`, `replaceState` and `popstate`
+     * - 'hash': also treats `#/route` fragments as pages, via `hashchange`
+     * - 'manual': no automatic page views, call `trackPageView()` yourself.
+     *   Each call after the first closes the previous page like a navigation.
+     */
+    routingMode?: RoutingMode;
+
+    /**
+     * Do not count changes to only the query string as a new page
+     * (default: false)
+     */
+    ignoreQueryChanges?: boolean;
+
+    /**
+     * Do not count changes to only the `#fragment`, such as in-page anchors,
+     * as a new page. Has no effect in hash routing mode. (default: false)
+     */
+    ignoreHashChanges?: boolean;
+
+    /**
+     * Enable click tracking for elements with data-lwsa-event attribute (default: true)
+     */
+    trackClicks?: boolean;
+
+    /**
+     * Persist payloads that fail to send and retry them later (default: true)
+     */
+    queueOffline?: boolean;
+
+    /**
+     * Maximum number of payloads kept in the offline queue (default: 100)
+     */
+    queueMaxSize?: number;
+
+    /**
+     * Time in milliseconds after which queued payloads are discarded (default: 24 hours)
+     */
+    queueTtl?: number;
+
+    /**
+     * Collect payloads and send them together as an array (default: false)
+     */
+    batchEvents?: boolean;
+
+    /**
+     * Number of payloads that triggers sending a batch (default: 10)
+     */
+    batchSize?: number;
+
+    /**
+     * Time in milliseconds a payload may wait before its batch is sent (default: 5000)
+     */
+    batchInterval?: number;
+
+    /**
+     * Buffer events until consent is granted with setConsent() (default: false)
+     */
+    requireConsent?: boolean;
+
+    /**
+     * Cookieless mode: never read or write storage and omit the client ID (default: false)
+     */
+    anonymous?: boolean;
+
+    /**
+     * Adapter that feeds consent decisions from a consent management platform
+     */
+    consentAdapter?: ConsentAdapter;
+
+    /**
+     * How to handle Do Not Track: 'disable', 'anonymous' or 'ignore' (default: 'ignore')
+     */
+    respectDnt?: PrivacySignalPolicy;
+
+    /**
+     * How to handle Global Privacy Control: 'disable', 'anonymous' or 'ignore' (default: 'ignore')
+     */
+    respectGpc?: PrivacySignalPolicy;
+
+    /**
+     * Attach a session ID to every event and emit session_start/session_end (default: false)
+     */
+    trackSessions?: boolean;
+
+    /**
+     * Inactivity in milliseconds after which a new session starts (default: 30 minutes)
+     */
+    sessionTimeout?: number;
+
+    /**
+     * Also rotate sessions at 'local' or 'utc' midnight, or 'none' (default: 'local')
+     */
+    sessionRotation?: SessionRotation;
+
+    /**
+     * Keep static super properties in localStorage across page loads
+     * (default: false)
+     */
+    persistSuperProperties?: boolean;
+
+    /**
+     * Only send these query parameters in `url` and `referer`, all others are
+     * removed (default: all parameters are kept)
+     */
+    allowedQueryParams?: string[];
+
+    /**
+     * Query parameters removed from `url` and `referer` (default: [])
+     */
+    excludedQueryParams?: string[];
+
+    /**
+     * Remove the `#fragment` from `url` and `referer` (default: false)
+     */
+    stripHash?: boolean;
+
+    /**
+     * Replacements applied to the path of `url`, `path` and `referer`, e.g.
+     * `{ pattern: /\/users\/\d+/, replacement: '/users/:id' }` (default: [])
+     */
+    maskPaths?: PathMask[];
+
+    /**
+     * Replace email addresses in `url`, `path` and `referer` (default: true)
+     */
+    redactEmails?: boolean;
+
+    /**
+     * Plugins to register on init, their hooks run in this order. Optional
+     * features such as `createWebVitalsPlugin()` are added here.
+     */
+    plugins?: LwsAnalyticsPlugin[];
+
+    /**
+     * How payloads are delivered: `fetch`, `beacon`, `memory` (for tests),
+     * `console` or a custom transport (default: 'fetch')
+     */
+    transport?: TransportName | Transport;
+}
+
+export interface PageViewOptions {
+    /**
+     * Virtual path to report instead of the current location, e.g.
+     * `/checkout/step-2`
+     */
+    path?: string;
+
+    /**
+     * Page title sent with the page view
+     */
+    title?: string;
+}
+
+/**
+ * What happened to a payload:
+ * - `sent`: delivered to the collector
+ * - `failed`: delivery failed and the payload could not be queued
+ * - `queued`: stored in the offline queue for a retry
+ * - `buffered`: waiting for consent
+ * - `paused`: held because sending is paused
+ * - `dropped`: discarded because of consent, a privacy signal or a plugin
+ */
+export type PayloadStatus =
+    | 'sent'
+    | 'failed'
+    | 'queued'
+    | 'buffered'
+    | 'paused'
+    | 'dropped';
+
+export interface PayloadInspection {
+    status: PayloadStatus;
+    payload: Record<string, unknown>;
+
+    /**
+     * Why the payload got this status, e.g. `consent` for dropped payloads
+     */
+    reason?: string;
+
+    timestamp: number;
+}
+
+export type PayloadInspector = (inspection: PayloadInspection) => void;
+
+/**
+ * A single event property value. Values must be JSON-serializable primitives.
+ */
+export type EventPropertyValue = string | number | boolean | null;
+
+/**
+ * Property bag attached to a custom event
+ */
+export type EventProperties = Record<string, EventPropertyValue>;
+
+/**
+ * Maps event names to the properties they accept. Declare your own map to get
+ * compile-time checking of `trackEvent()` calls:
+ *
+ * ```ts
+ * type AppEvents = {
+ *     signup: { plan: 'free' | 'pro' };
+ *     logout: undefined;
+ * };
+ * const analytics = init<AppEvents>({ siteId: 'your-site-id' });
+ * ```
+ */
+export type EventMap = Record<string, EventProperties | undefined>;
+
+export type ValidEventMap<Events> = {
+    [Name in keyof Events]: EventProperties | undefined;
+};
+
+export interface LwsAnalyticsInstance<
+    Events extends ValidEventMap<Events> = EventMap,
+> {
+    /**
+     * Track a page view
+     * @param options - Optional virtual path and title, e.g. for wizard steps
+     */
+    trackPageView: (options?: PageViewOptions) => void;
+
+    /**
+     * Track a custom event
+     * @param name - The name of the custom event
+     * @param props - Optional properties to attach to the event
+     */
+    trackEvent: <Name extends keyof Events & string>(
+        name: Name,
+        props?: Events[Name],
+    ) => void;
+
+    /**
+     * Grant or deny consent for analytics tracking
+     * @param consent - The user's consent decision
+     */
+    setConsent: (consent: ConsentState) => void;
+
+    /**
+     * Attach a user ID and traits to all following events
+     * @param userId - Your own ID for the logged in user
+     * @param traits - Optional properties describing the user
+     */
+    identify: (userId: string, traits?: EventProperties) => void;
+
+    /**
+     * Forget the identified user and rotate the client ID, e.g. on logout
+     */
+    reset: () => void;
+
+    /**
+     * Attach properties to every following event. Functions are evaluated
+     * each time an event is tracked.
+     * @param props - Properties to register, replacing existing keys
+     */
+    register: (props: SuperProperties) => void;
+
+    /**
+     * Like `register()`, but keeps properties that are already registered
+     * @param props - Properties to register
+     */
+    registerOnce: (props: SuperProperties) => void;
+
+    /**
+     * Stop attaching a property registered with `register()`
+     * @param key - The property name
+     */
+    unregister: (key: string) => void;
+
+    /**
+     * Get notified about the status of every payload, e.g. for debugging.
+     * The last 100 status changes before subscribing are replayed first.
+     * @param inspector - Called each time a payload changes status
+     * @returns A function that stops the notifications
+     */
+    inspect: (inspector: PayloadInspector) => () => void;
+
+    /**
+     * Hold payloads instead of sending them. Held payloads are sent when
+     * sending is resumed.
+     * @param paused - Whether sending is paused
+     */
+    setPaused: (paused: boolean) => void;
+
+    /**
+     * Payloads recorded by the `memory` transport, oldest first. Returns an
+     * empty array for other transports.
+     */
+    getSentEvents: () => Record<string, unknown>[];
+
+    /**
+     * Forget the payloads recorded by the `memory` transport
+     */
+    clearSentEvents: () => void;
+
+    /**
+     * Register a plugin after init. Its hooks run after those of plugins
+     * registered earlier.
+     * @param plugin - The plugin to register
+     */
+    use: (plugin: LwsAnalyticsPlugin) => void;
+
+    /**
+     * Destroy the analytics instance and remove event listeners
+     */
+    destroy: () => void;
+}
@@ -0,0 +1,118 @@
+export interface PathMask {
+    /**
+     * Pattern matched against the path, use the `g` flag to mask every match
+     */
+    pattern: RegExp;
+
+    /**
+     * Replacement, may reference capture groups such as `$1`
+     */
+    replacement: string;
+}
+
+export interface UrlSanitizerOptions {
+    /**
+     * Only keep these query parameters. All parameters are kept when unset.
+     */
+    allowedParams?: string[];
+
+    /**
+     * Always remove these query parameters
+     */
+    excludedParams: string[];
+
+    /**
+     * Remove the `#fragment`
+     */
+    stripHash: boolean;
+
+    /**
+     * Replacements applied to the path in order
+     */
+    pathMasks: PathMask[];
+
+    /**
+     * Replace email addresses in the path, query and fragment
+     */
+    redactEmails: boolean;
+}
+
+export interface UrlSanitizer {
+    /**
+     * Sanitize an absolute URL. Values that cannot be parsed are returned
+     * with only emails redacted.
+     */
+    url: (value: string) => string;
+
+    /**
+     * Sanitize a path such as `location.pathname`
+     */
+    path: (value: string) => string;
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+const EMAIL_PLACEHOLDER = 'redacted';
+
+export function createUrlSanitizer(options: UrlSanitizerOptions): UrlSanitizer {
+    const allowed = options.allowedParams?.map((name) => name.toLowerCase());
+    const excluded = options.excludedParams.map((name) => name.toLowerCase());
+
+    function redact(value: string): string {
+        if (!options.redactEmails) return value;
+
+        let decoded = value;
+        try {
+            decoded = decodeURIComponent(value);
+        } catch {
+            // Malformed escape sequence, match the raw value
+        }
+        const redacted = decoded.replace(EMAIL_PATTERN, EMAIL_PLACEHOLDER);
+        return redacted === decoded ? value : redacted;
+    }
+
+    function isParamKept(name: string): boolean {
+        const key = name.toLowerCase();
+        if (excluded.includes(key)) return false;
+        return !allowed || allowed.includes(key);
+    }
+
+    function path(value: string): string {
+        const masked = options.pathMasks.reduce(
+            (current, mask) => current.replace(mask.pattern, mask.replacement),
+            value,
+        );
+        return redact(masked);
+    }
+
+    function url(value: string): string {
+        let parsed: URL;
+        try {
+            parsed = new URL(value);
+        } catch {
+            return redact(value);
+        }
+
+        let changed = false;
+        const params: [string, string][] = [];
+        parsed.searchParams.forEach((param, name) => {
+            const redacted = redact(param);
+            if (!isParamKept(name) || redacted !== param) {
+                changed = true;
+            }
+            if (isParamKept(name)) {
+                params.push([name, redacted]);
+            }
+        });
+        // Only re-serialize when needed, URLSearchParams changes the encoding
+        if (changed) {
+            parsed.search = new URLSearchParams(params).toString();
+        }
+
+        parsed.hash = options.stripHash ? '' : redact(parsed.hash);
+        parsed.pathname = path(parsed.pathname);
+
+        return parsed.href;
+    }
+
+    return { url, path };
+}
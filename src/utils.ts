@@ -0,0 +1,65 @@
+export function generateUniqueId(): string {
+    if (
+        typeof crypto !== 'undefined' &&
+        typeof crypto.randomUUID === 'function'
+    ) {
+        return crypto.randomUUID();
+    }
+    // Fallback for older browsers
+    return (
+        'cid_' + Math.random().toString(36).slice(2) + Date.now().toString(36)
+    );
+}
+
+/**
+ * Size of a string in bytes once encoded as UTF-8
+ */
+export function byteLength(value: string): number {
+    return new TextEncoder().encode(value).length;
+}
+
+export type StorageArea = 'localStorage' | 'sessionStorage';
+
+/**
+ * Read and parse a JSON value from storage, returning null when storage is
+ * unavailable or the value is missing or corrupt
+ */
+export function readStorage<T>(
+    key: string,
+    area: StorageArea = 'localStorage',
+): T | null {
+    try {
+        const raw = window[area].getItem(key);
+        return raw ? (JSON.parse(raw) as T) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Serialize a value to storage, returning false when storage is unavailable
+ * or full
+ */
+export function writeStorage(
+    key: string,
+    value: unknown,
+    area: StorageArea = 'localStorage',
+): boolean {
+    try {
+        window[area].setItem(key, JSON.stringify(value));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function removeStorage(
+    key: string,
+    area: StorageArea = 'localStorage',
+): void {
+    try {
+        window[area].removeItem(key);
+    } catch {
+        // Storage unavailable
+    }
+}
@@ -0,0 +1,129 @@
+import { inject, type App, type InjectionKey, type ObjectDirective } from 'vue';
+import type { Router } from 'vue-router';
+import { getInstance, init } from './index';
+import type {
+    EventMap,
+    EventProperties,
+    LwsAnalyticsConfig,
+    LwsAnalyticsInstance,
+    ValidEventMap,
+} from './types';
+
+const ANALYTICS_KEY: InjectionKey<LwsAnalyticsInstance> =
+    Symbol('lws-analytics');
+
+export interface LwsAnalyticsVueOptions extends LwsAnalyticsConfig {
+    /**
+     * Track page views from this router's `afterEach` hook instead of
+     * patching `history`
+     */
+    router?: Router;
+}
+
+/**
+ * Value of the `v-lwsa-event` directive: an event name, or a name with
+ * properties
+ */
+export type EventDirectiveValue =
+    | string
+    | { name: string; props?: EventProperties };
+
+interface DirectiveState {
+    value: EventDirectiveValue;
+    handleClick: () => void;
+}
+
+const directiveState = new WeakMap<HTMLElement, DirectiveState>();
+
+function createEventDirective(
+    analytics: LwsAnalyticsInstance,
+): ObjectDirective<HTMLElement, EventDirectiveValue> {
+    return {
+        mounted: (el, binding) => {
+            const state: DirectiveState = {
+                value: binding.value,
+                handleClick: () => {
+                    const { value } = state;
+                    if (typeof value === 'string') {
+                        analytics.trackEvent(value);
+                    } else if (value) {
+                        analytics.trackEvent(value.name, value.props);
+                    }
+                },
+            };
+            directiveState.set(el, state);
+            el.addEventListener('click', state.handleClick);
+        },
+        updated: (el, binding) => {
+            const state = directiveState.get(el);
+            if (state) {
+                state.value = binding.value;
+            }
+        },
+        unmounted: (el) => {
+            const state = directiveState.get(el);
+            if (state) {
+                el.removeEventListener('click', state.handleClick);
+                directiveState.delete(el);
+            }
+        },
+    };
+}
+
+/**
+ * Vue plugin: `app.use(LwsAnalytics, { siteId: 'your-site-id' })`. Calls
+ * `init()`, registers `v-lwsa-event` and makes the tracker available to
+ * `useAnalytics()`. The tracker is destroyed when the app is unmounted.
+ */
+export const LwsAnalytics = {
+    install(app: App, options: LwsAnalyticsVueOptions): void {
+        const { router, ...config } = options;
+        const analytics = init(
+            router
+                ? {
+                      ...config,
+                      routingMode: 'manual',
+                      trackPageViewOnInit: false,
+                  }
+                : config,
+        );
+
+        app.provide(ANALYTICS_KEY, analytics);
+        app.directive('lwsa-event', createEventDirective(analytics));
+
+        // afterEach also runs for the initial navigation
+        const removeRouterHook = router?.afterEach((to, _from, failure) => {
+            if (failure) return;
+            // `fullPath` is relative to the router base, `href` includes it.
+            // Hash history hrefs only hold the fragment, which is the route.
+            const href = router.resolve(to).href;
+            analytics.trackPageView({
+                path: href.startsWith('#') ? to.fullPath : href,
+                ...(typeof to.name === 'string' && { title: to.name }),
+            });
+        });
+
+        app.onUnmount(() => {
+            removeRouterHook?.();
+            analytics.destroy();
+        });
+    },
+};
+
+/**
+ * The tracker installed with `app.use(LwsAnalytics)`, falling back to the
+ * one created by `init()`
+ */
+export function useAnalytics<
+    Events extends ValidEventMap<Events> = EventMap,
+>(): LwsAnalyticsInstance<Events> | null {
+    const analytics = inject(ANALYTICS_KEY, null) ?? getInstance();
+    if (!analytics) {
+        console.warn(
+            '[LWS Analytics] Not initialized. Install the LwsAnalytics plugin first.',
+        );
+    }
+    return analytics as LwsAnalyticsInstance<Events> | null;
+}
+
+export type { LwsAnalyticsConfig, LwsAnalyticsInstance } from './types';
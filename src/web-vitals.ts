@@ -0,0 +1,277 @@
+import type { LwsAnalyticsPlugin } from './plugins';
+import type { EventProperties } from './types';
+
+export type WebVitalName = 'lcp' | 'cls' | 'inp' | 'fcp' | 'ttfb';
+
+export type WebVitalsMetrics = Partial<Record<WebVitalName, number>>;
+
+export interface WebVitalsReport {
+    /**
+     * URL of the page the metrics belong to
+     */
+    url: string;
+
+    /**
+     * Path of the page the metrics belong to
+     */
+    path: string;
+
+    metrics: WebVitalsMetrics;
+}
+
+export interface WebVitalsCollectorOptions {
+    /**
+     * Called at most once per page lifecycle with the collected metrics.
+     * `unloading` is true when the page is being hidden.
+     */
+    onReport: (report: WebVitalsReport, unloading: boolean) => void;
+
+    /**
+     * Path of the current page, e.g. with the route in hash routing mode
+     */
+    getPath: () => string;
+}
+
+export interface WebVitalsCollector {
+    start: () => void;
+    stop: () => void;
+
+    /**
+     * Report the metrics collected so far, unless they were already reported
+     */
+    flush: (unloading?: boolean) => void;
+
+    /**
+     * Start collecting metrics for a new SPA route. Load metrics (LCP, FCP,
+     * TTFB) only apply to the initial page load and are not collected again.
+     */
+    reset: () => void;
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+    value: number;
+    hadRecentInput: boolean;
+}
+
+interface InteractionEntry extends PerformanceEntry {
+    interactionId?: number;
+}
+
+// CLS groups shifts into session windows: shifts less than 1s apart, at most
+// 5s per window. The largest window is reported.
+const CLS_SESSION_GAP = 1000;
+const CLS_SESSION_MAX = 5000;
+
+// INP ignores one outlier per 50 interactions (approximates the 98th percentile)
+const INP_OUTLIER_INTERVAL = 50;
+
+function isSupported(type: string): boolean {
+    return (
+        typeof PerformanceObserver !== 'undefined' &&
+        Array.isArray(PerformanceObserver.supportedEntryTypes) &&
+        PerformanceObserver.supportedEntryTypes.includes(type)
+    );
+}
+
+export function createWebVitalsCollector(
+    options: WebVitalsCollectorOptions,
+): WebVitalsCollector {
+    let observers: PerformanceObserver[] = [];
+    let url = window.location.href;
+    let path = options.getPath();
+    let initialLoad = true;
+    let reported = false;
+
+    let lcp: number | undefined;
+    let fcp: number | undefined;
+    let cls: number | undefined;
+    let clsWindowValue = 0;
+    let clsWindowStart = 0;
+    let clsLastShift = 0;
+    let interactions = new Map<number, number>();
+
+    function observe(
+        type: string,
+        callback: (entries: PerformanceEntry[]) => void,
+        init: PerformanceObserverInit = {},
+    ): void {
+        if (!isSupported(type)) return;
+        try {
+            const observer = new PerformanceObserver((list) =>
+                callback(list.getEntries()),
+            );
+            observer.observe({ type, buffered: true, ...init });
+            observers.push(observer);
+        } catch {
+            // Entry type not observable in this browser
+        }
+    }
+
+    function handlePaint(entries: PerformanceEntry[]): void {
+        for (const entry of entries) {
+            if (entry.name === 'first-contentful-paint' && initialLoad) {
+                fcp = entry.startTime;
+            }
+        }
+    }
+
+    function handleLcp(entries: PerformanceEntry[]): void {
+        const last = entries[entries.length - 1];
+        if (last && initialLoad) {
+            lcp = last.startTime;
+        }
+    }
+
+    function handleLayoutShift(entries: PerformanceEntry[]): void {
+        for (const entry of entries as LayoutShiftEntry[]) {
+            if (entry.hadRecentInput) continue;
+
+            if (
+                clsWindowValue > 0 &&
+                entry.startTime - clsLastShift < CLS_SESSION_GAP &&
+                entry.startTime - clsWindowStart < CLS_SESSION_MAX
+            ) {
+                clsWindowValue += entry.value;
+            } else {
+                clsWindowValue = entry.value;
+                clsWindowStart = entry.startTime;
+            }
+            clsLastShift = entry.startTime;
+            cls = Math.max(cls ?? 0, clsWindowValue);
+        }
+    }
+
+    function handleInteraction(entries: PerformanceEntry[]): void {
+        for (const entry of entries as InteractionEntry[]) {
+            if (!entry.interactionId) continue;
+            const previous = interactions.get(entry.interactionId) ?? 0;
+            interactions.set(
+                entry.interactionId,
+                Math.max(previous, entry.duration),
+            );
+        }
+    }
+
+    function getTtfb(): number | undefined {
+        if (typeof performance === 'undefined') return undefined;
+        const [navigation] = performance.getEntriesByType(
+            'navigation',
+        ) as PerformanceNavigationTiming[];
+        return navigation && navigation.responseStart > 0
+            ? navigation.responseStart
+            : undefined;
+    }
+
+    function getInp(): number | undefined {
+        if (interactions.size === 0) return undefined;
+        const durations = Array.from(interactions.values()).sort(
+            (a, b) => b - a,
+        );
+        const index = Math.min(
+            durations.length - 1,
+            Math.floor(durations.length / INP_OUTLIER_INTERVAL),
+        );
+        return durations[index];
+    }
+
+    function collect(): WebVitalsMetrics {
+        const metrics: WebVitalsMetrics = {};
+        const inp = getInp();
+
+        if (initialLoad) {
+            const ttfb = getTtfb();
+            if (ttfb !== undefined) metrics.ttfb = Math.round(ttfb);
+            if (fcp !== undefined) metrics.fcp = Math.round(fcp);
+            if (lcp !== undefined) metrics.lcp = Math.round(lcp);
+        }
+        if (cls !== undefined) metrics.cls = Math.round(cls * 10000) / 10000;
+        if (inp !== undefined) metrics.inp = Math.round(inp);
+
+        return metrics;
+    }
+
+    function flush(unloading = false): void {
+        if (reported) return;
+
+        const metrics = collect();
+        if (Object.keys(metrics).length === 0) return;
+
+        reported = true;
+        options.onReport({ url, path, metrics }, unloading);
+    }
+
+    // Not on visibilitychange: CLS and INP keep growing after a tab switch
+    function handlePageHide(): void {
+        flush(true);
+    }
+
+    return {
+        start: () => {
+            observe('paint', handlePaint);
+            observe('largest-contentful-paint', handleLcp);
+            observe('layout-shift', handleLayoutShift);
+            observe('event', handleInteraction, {
+                durationThreshold: 40,
+            } as PerformanceObserverInit);
+            observe('first-input', handleInteraction);
+            window.addEventListener('pagehide', handlePageHide);
+        },
+        stop: () => {
+            observers.forEach((observer) => observer.disconnect());
+            observers = [];
+            window.removeEventListener('pagehide', handlePageHide);
+        },
+        flush,
+        reset: () => {
+            url = window.location.href;
+            path = options.getPath();
+            initialLoad = false;
+            reported = false;
+            lcp = undefined;
+            fcp = undefined;
+            cls = undefined;
+            clsWindowValue = 0;
+            clsWindowStart = 0;
+            clsLastShift = 0;
+            interactions = new Map();
+        },
+    };
+}
+
+/**
+ * Reports Core Web Vitals as a `web_vitals` event when the page is unloaded or
+ * the SPA route changes
+ */
+export function createWebVitalsPlugin(): LwsAnalyticsPlugin {
+    let collector: WebVitalsCollector | null = null;
+
+    return {
+        name: 'web-vitals',
+        setup: (context) => {
+            collector = createWebVitalsCollector({
+                onReport: (report, unloading) => {
+                    context.log('Web vitals:', report.metrics);
+                    context.track(
+                        'web_vitals',
+                        'Web vitals',
+                        report.metrics as EventProperties,
+                        { url: report.url, path: report.path },
+                    );
+                    if (unloading) {
+                        context.flush();
+                    }
+                },
+                getPath: context.getPath,
+            });
+            collector.start();
+        },
+        routeChange: () => {
+            collector?.flush();
+            collector?.reset();
+        },
+        teardown: () => {
+            collector?.stop();
+            collector = null;
+        },
+    };
+}